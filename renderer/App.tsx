@@ -1,8 +1,19 @@
 import React, { useEffect, useState } from "react";
-import { AgentState, LinkedWindow } from "../src/types/agent";
+import {
+  AgentState,
+  LinkedWindow,
+  SessionFieldFormat,
+} from "../src/types/agent";
+import { FillPlan } from "../src/types/fillPlan";
 import "./App.css";
+import AskHeidi from "./components/AskHeidi";
+import CodePicker from "./components/CodePicker";
 import Controls from "./components/Controls";
+import DocumentGenerator from "./components/DocumentGenerator";
 import FieldPreview from "./components/FieldPreview";
+import FillPlanReview from "./components/FillPlanReview";
+import FillReport from "./components/FillReport";
+import LayoutLibrary from "./components/LayoutLibrary";
 import "./electron.d";
 
 function App() {
@@ -15,6 +26,7 @@ function App() {
   const [isCapturing, setIsCapturing] = useState(false);
   const [showDebugPanel, setShowDebugPanel] = useState(false);
   const [showHeidiApiPanel, setShowHeidiApiPanel] = useState(false);
+  const [showLayoutLibrary, setShowLayoutLibrary] = useState(false);
   const [heidiApiStatus, setHeidiApiStatus] = useState<string>("");
   const [heidiApiResult, setHeidiApiResult] = useState<any>(null);
   const [heidiSessionId, setHeidiSessionId] = useState<string>("");
@@ -24,6 +36,8 @@ function App() {
   const [demoOverview, setDemoOverview] = useState<any | null>(null);
   const [isLoadingDemo, setIsLoadingDemo] = useState(false);
   const [demoError, setDemoError] = useState<string | null>(null);
+  const [editedPlan, setEditedPlan] = useState<FillPlan | null>(null);
+  const [isExecutingPlan, setIsExecutingPlan] = useState(false);
 
   const DEMO_SESSION_ID = "337851254565527952685384877024185083869";
 
@@ -77,6 +91,11 @@ function App() {
     };
   }, []);
 
+  // Start editing a fresh copy whenever main builds a new fill plan
+  useEffect(() => {
+    setEditedPlan(state.fillPlan ?? null);
+  }, [state.fillPlan?.createdAt]);
+
   const handlePrevField = async () => {
     try {
       await window.electronAPI.agent.selectPreviousField();
@@ -146,6 +165,35 @@ function App() {
     }
   };
 
+  const handleExecutePlan = async () => {
+    if (!editedPlan) return;
+    setIsExecutingPlan(true);
+    try {
+      const result = await window.electronAPI.agent.executeFillPlan(
+        editedPlan
+      );
+      if (!result.success && result.error) {
+        setError(result.error);
+        setTimeout(() => setError(null), 5000);
+      }
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : "Unknown error occurred";
+      setError(errorMessage);
+      setTimeout(() => setError(null), 5000);
+    } finally {
+      setIsExecutingPlan(false);
+    }
+  };
+
+  const handleDiscardPlan = async () => {
+    try {
+      await window.electronAPI.agent.discardFillPlan();
+    } catch (err) {
+      console.error("Error discarding fill plan:", err);
+    }
+  };
+
   const sessionFields = state?.sessionFields || [];
   const currentFieldIndex = state?.currentIndex ?? 0;
 
@@ -211,7 +259,8 @@ function App() {
   const handleDemoCardClick = async (
     fieldId: string,
     label: string,
-    getValue: (overview: any) => string | null
+    getValue: (overview: any) => string | null,
+    format?: SessionFieldFormat
   ) => {
     const overview = await ensureDemoOverview();
     if (!overview) {
@@ -233,6 +282,7 @@ function App() {
       label: label,
       value: value,
       source: "heidi" as const,
+      format,
     };
 
     console.log("[APP] Adding field:", field);
@@ -244,6 +294,25 @@ function App() {
     }
   };
 
+  // Import every field of a Heidi session through the API
+  const handleImportSession = async (sessionId: string) => {
+    setIsLoadingDemo(true);
+    setDemoError(null);
+
+    try {
+      const result = await window.electronAPI.agent.importHeidiSession(
+        sessionId
+      );
+      if (!result.success && result.error) {
+        setDemoError(result.error);
+      }
+    } catch (err) {
+      setDemoError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setIsLoadingDemo(false);
+    }
+  };
+
   return (
     <div className="app">
       <div className="app-header">
@@ -287,15 +356,49 @@ function App() {
         </div>
       )}
 
-      <FieldPreview
-        fields={sessionFields}
-        currentIndex={currentFieldIndex}
-        onDemoCardClick={
-          sessionFields.length === 0 ? handleDemoCardClick : undefined
-        }
-        isLoadingDemo={isLoadingDemo}
-        demoError={demoError}
-      />
+      {state?.fillReport && !editedPlan && (
+        <FillReport
+          report={state.fillReport}
+          onDismiss={() => window.electronAPI.agent.dismissFillReport()}
+        />
+      )}
+
+      {editedPlan ? (
+        <FillPlanReview
+          plan={editedPlan}
+          fields={sessionFields}
+          onChange={setEditedPlan}
+          onExecute={handleExecutePlan}
+          onDiscard={handleDiscardPlan}
+          isExecuting={isExecutingPlan}
+        />
+      ) : (
+        <FieldPreview
+          fields={sessionFields}
+          currentIndex={currentFieldIndex}
+          onDemoCardClick={
+            sessionFields.length === 0 ? handleDemoCardClick : undefined
+          }
+          onImportSession={
+            sessionFields.length === 0 ? handleImportSession : undefined
+          }
+          isLoadingDemo={isLoadingDemo}
+          demoError={demoError}
+        />
+      )}
+
+      {!editedPlan && state?.sessionCodes && state.sessionCodes.length > 0 && (
+        <CodePicker
+          codes={state.sessionCodes}
+          linkedEmrWindow={linkedEmrWindow}
+        />
+      )}
+
+      {!editedPlan && state?.heidiSessionId && <DocumentGenerator />}
+
+      {!editedPlan && state?.heidiSessionId && (
+        <AskHeidi turns={state.askHeidi || []} />
+      )}
 
       <Controls
         status={state?.status || "idle"}
@@ -313,6 +416,11 @@ function App() {
           <div>⌥W: Move up</div>
           <div>⌥S: Move down</div>
           <div>⌥V: Type field</div>
+          <div>⌥F: Review & fill form</div>
+          <div>
+            ⌥Z: Undo last fill
+            {state?.undoDepth ? ` (${state.undoDepth})` : ""}
+          </div>
           <div>⌥X: Clear</div>
           <div>⌥D: Disconnect EMR & close</div>
         </div>
@@ -329,6 +437,12 @@ function App() {
         >
           {showDebugPanel ? "Hide" : "Show"} Debug
         </button>
+        <button
+          className="btn-debug"
+          onClick={() => setShowLayoutLibrary(!showLayoutLibrary)}
+        >
+          {showLayoutLibrary ? "Hide" : "Show"} Layouts
+        </button>
         {process.env.NODE_ENV === "development" && (
           <button
             className="btn-debug"
@@ -341,6 +455,8 @@ function App() {
         )}
       </div>
 
+      {showLayoutLibrary && <LayoutLibrary linkedEmrWindow={linkedEmrWindow} />}
+
       {showDebugPanel && sessionFields.length > 0 && (
         <div className="debug-panel">
           <div className="debug-panel-title">
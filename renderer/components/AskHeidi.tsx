@@ -0,0 +1,89 @@
+import React, { useState } from "react";
+import { AskHeidiTurn } from "../../src/types/agent";
+import "./AskHeidi.css";
+
+interface AskHeidiProps {
+  turns: AskHeidiTurn[];
+}
+
+// Session field label for a saved answer (the question, shortened)
+function answerLabel(question: string): string {
+  return question.length > 40 ? question.substring(0, 40) + "..." : question;
+}
+
+function AskHeidi({ turns }: AskHeidiProps) {
+  const [question, setQuestion] = useState("");
+  const [savedIds, setSavedIds] = useState<Set<string>>(new Set());
+  const isStreaming = turns.some((turn) => turn.status === "streaming");
+
+  const handleAsk = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!question.trim()) {
+      return;
+    }
+    setQuestion("");
+    await window.electronAPI.agent.askHeidi(question);
+  };
+
+  // Answers become session fields, selected and ready for ⌥V
+  const handleUseAsField = async (turn: AskHeidiTurn) => {
+    const result = await window.electronAPI.agent.addSessionFields([
+      {
+        id: `ask-heidi-${turn.id}`,
+        label: answerLabel(turn.question),
+        value: turn.answer.trim(),
+        source: "heidi",
+        format: "markdown",
+      },
+    ]);
+    if (result.success) {
+      setSavedIds(new Set(savedIds).add(turn.id));
+    }
+  };
+
+  return (
+    <div className="ask-heidi">
+      <div className="ask-heidi-title">Ask Heidi</div>
+      {turns.length > 0 && (
+        <div className="ask-heidi-conversation">
+          {turns.map((turn) => (
+            <div key={turn.id} className="ask-heidi-turn">
+              <div className="ask-heidi-question">{turn.question}</div>
+              {turn.status === "error" ? (
+                <div className="ask-heidi-answer error">{turn.error}</div>
+              ) : (
+                <div className="ask-heidi-answer">
+                  {turn.answer || (turn.status === "streaming" ? "..." : "")}
+                </div>
+              )}
+              {turn.status === "done" && turn.answer.trim() && (
+                <button
+                  className="ask-heidi-use"
+                  onClick={() => handleUseAsField(turn)}
+                  disabled={savedIds.has(turn.id)}
+                >
+                  {savedIds.has(turn.id)
+                    ? "Added (⌥V to paste)"
+                    : "Use as field"}
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+      <form className="ask-heidi-form" onSubmit={handleAsk}>
+        <input
+          type="text"
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          placeholder="e.g. Summarise the plan in 2 lines"
+        />
+        <button type="submit" disabled={isStreaming || !question.trim()}>
+          Ask
+        </button>
+      </form>
+    </div>
+  );
+}
+
+export default AskHeidi;
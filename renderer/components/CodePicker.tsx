@@ -0,0 +1,140 @@
+import React, { useEffect, useState } from "react";
+import { LinkedWindow, SessionCode } from "../../src/types/agent";
+import "./CodePicker.css";
+
+interface CodePickerProps {
+  codes: SessionCode[];
+  linkedEmrWindow?: LinkedWindow;
+}
+
+const SYSTEM_LABELS: Record<SessionCode["system"], string> = {
+  icd: "ICD",
+  cpt: "CPT",
+  diagnosis: "Diagnosis",
+};
+
+// "" keeps the EMR profile's codeSeparator
+const SEPARATORS = [
+  { value: "", label: "EMR default" },
+  { value: "tab", label: "Tab (one field per code)" },
+  { value: ", ", label: "Comma" },
+  { value: "; ", label: "Semicolon" },
+  { value: "\n", label: "New line" },
+];
+
+function codeKey(code: SessionCode): string {
+  return `${code.system}:${code.code}`;
+}
+
+function CodePicker({ codes, linkedEmrWindow }: CodePickerProps) {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [includeDescription, setIncludeDescription] = useState(false);
+  const [separator, setSeparator] = useState("");
+  const [status, setStatus] = useState<string>("");
+  const [isError, setIsError] = useState(false);
+  const [isPasting, setIsPasting] = useState(false);
+
+  // A new import starts with every code picked (state updates arrive as new arrays)
+  const codesKey = codes.map(codeKey).join("|");
+  useEffect(() => {
+    setSelected(new Set(codes.map(codeKey)));
+    setStatus("");
+  }, [codesKey]);
+
+  const toggle = (code: SessionCode) => {
+    const next = new Set(selected);
+    if (next.has(codeKey(code))) {
+      next.delete(codeKey(code));
+    } else {
+      next.add(codeKey(code));
+    }
+    setSelected(next);
+  };
+
+  const picked = codes.filter((code) => selected.has(codeKey(code)));
+
+  const handlePaste = async () => {
+    setIsPasting(true);
+    try {
+      const result = await window.electronAPI.agent.pasteCodes({
+        codes: picked,
+        includeDescription,
+        separator: separator || undefined,
+      });
+      if (result.success) {
+        setIsError(false);
+        setStatus(`Pasted ${result.codeCount} code(s). ⌥Z to undo.`);
+      } else if (result.error) {
+        setIsError(true);
+        setStatus(result.error);
+      }
+    } finally {
+      setIsPasting(false);
+    }
+  };
+
+  return (
+    <div className="code-picker">
+      <div className="code-picker-title">Codes</div>
+      <div className="code-picker-list">
+        {codes.map((code) => (
+          <label key={codeKey(code)} className="code-picker-item">
+            <input
+              type="checkbox"
+              checked={selected.has(codeKey(code))}
+              onChange={() => toggle(code)}
+            />
+            <span className="code-picker-system">
+              {SYSTEM_LABELS[code.system]}
+            </span>
+            <span className="code-picker-code">{code.code}</span>
+            {code.description && (
+              <span className="code-picker-description">
+                {code.description}
+              </span>
+            )}
+          </label>
+        ))}
+      </div>
+      <div className="code-picker-options">
+        <label>
+          <input
+            type="checkbox"
+            checked={includeDescription}
+            onChange={(e) => setIncludeDescription(e.target.checked)}
+          />
+          With description
+        </label>
+        <select
+          value={separator}
+          onChange={(e) => setSeparator(e.target.value)}
+        >
+          {SEPARATORS.map((option) => (
+            <option key={option.label} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+      <button
+        className="code-picker-button"
+        onClick={handlePaste}
+        disabled={isPasting || picked.length === 0 || !linkedEmrWindow}
+        title={
+          linkedEmrWindow
+            ? "Types the codes from the focused EMR field"
+            : "Link an EMR window first"
+        }
+      >
+        {isPasting ? "Pasting..." : `Paste ${picked.length} code(s)`}
+      </button>
+      {status && (
+        <div className={`code-picker-status ${isError ? "error" : ""}`}>
+          {status}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default CodePicker;
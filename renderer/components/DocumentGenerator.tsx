@@ -0,0 +1,173 @@
+import React, { useEffect, useState } from "react";
+import {
+  DocumentTemplate,
+  DocumentVoiceStyle,
+  GeneratedDocument,
+} from "../../src/types/agent";
+import "./DocumentGenerator.css";
+
+const VOICE_STYLES: Array<{ value: DocumentVoiceStyle; label: string }> = [
+  { value: "GOLDILOCKS", label: "Standard" },
+  { value: "BRIEF", label: "Brief" },
+  { value: "DETAILED", label: "Detailed" },
+  { value: "SUPER_DETAILED", label: "Super detailed" },
+  { value: "MY_VOICE", label: "My voice" },
+];
+
+// Picker value for typing a template id that isn't in document-templates.json
+const OTHER_TEMPLATE = "";
+
+function DocumentGenerator() {
+  const [templates, setTemplates] = useState<DocumentTemplate[]>([]);
+  const [templateId, setTemplateId] = useState(OTHER_TEMPLATE);
+  const [customTemplateId, setCustomTemplateId] = useState("");
+  const [voiceStyle, setVoiceStyle] =
+    useState<DocumentVoiceStyle>("GOLDILOCKS");
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [document, setDocument] = useState<GeneratedDocument | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [status, setStatus] = useState("");
+  const [isError, setIsError] = useState(false);
+
+  useEffect(() => {
+    window.electronAPI.agent.getDocumentTemplates().then((result) => {
+      setTemplates(result.templates);
+      if (result.templates.length > 0) {
+        setTemplateId(result.templates[0].id);
+      }
+    });
+  }, []);
+
+  const template = templates.find((t) => t.id === templateId);
+  const requestedId = template ? template.id : customTemplateId.trim();
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    setDocument(null);
+    setIsError(false);
+    setStatus("Generating... this can take a minute");
+    try {
+      const result = await window.electronAPI.agent.generateDocument({
+        templateId: requestedId,
+        label: template?.label,
+        voiceStyle,
+      });
+      if (result.success && result.document) {
+        setDocument(result.document);
+        // The whole document is picked; sections are opt-in
+        setSelected(new Set([result.document.fields[0].id]));
+        setStatus("");
+      } else {
+        setIsError(true);
+        setStatus(result.error || "Document generation failed");
+      }
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const toggle = (fieldId: string) => {
+    const next = new Set(selected);
+    if (next.has(fieldId)) {
+      next.delete(fieldId);
+    } else {
+      next.add(fieldId);
+    }
+    setSelected(next);
+  };
+
+  const handleAddFields = async () => {
+    if (!document) {
+      return;
+    }
+    const fields = document.fields.filter((field) => selected.has(field.id));
+    const result = await window.electronAPI.agent.addSessionFields(fields);
+    if (result.success) {
+      setIsError(false);
+      setStatus(`Added ${fields.length} field(s). ⌥V to paste.`);
+      setDocument(null);
+    } else if (result.error) {
+      setIsError(true);
+      setStatus(result.error);
+    }
+  };
+
+  return (
+    <div className="document-generator">
+      <div className="document-generator-title">Generate document</div>
+      <div className="document-generator-options">
+        {templates.length > 0 && (
+          <select
+            value={templateId}
+            onChange={(e) => setTemplateId(e.target.value)}
+          >
+            {templates.map((t) => (
+              <option key={t.id} value={t.id}>
+                {t.label}
+              </option>
+            ))}
+            <option value={OTHER_TEMPLATE}>Other template ID...</option>
+          </select>
+        )}
+        {!template && (
+          <input
+            type="text"
+            value={customTemplateId}
+            onChange={(e) => setCustomTemplateId(e.target.value)}
+            placeholder="Heidi template ID"
+          />
+        )}
+        <select
+          value={voiceStyle}
+          onChange={(e) => setVoiceStyle(e.target.value as DocumentVoiceStyle)}
+        >
+          {VOICE_STYLES.map((style) => (
+            <option key={style.value} value={style.value}>
+              {style.label}
+            </option>
+          ))}
+        </select>
+      </div>
+      <button
+        className="document-generator-button"
+        onClick={handleGenerate}
+        disabled={isGenerating || !requestedId}
+      >
+        {isGenerating ? "Generating..." : "Generate"}
+      </button>
+
+      {document && (
+        <>
+          <div className="document-generator-preview">{document.content}</div>
+          <div className="document-generator-fields">
+            {document.fields.map((field) => (
+              <label key={field.id} className="document-generator-field">
+                <input
+                  type="checkbox"
+                  checked={selected.has(field.id)}
+                  onChange={() => toggle(field.id)}
+                />
+                {field.label}
+              </label>
+            ))}
+          </div>
+          <button
+            className="document-generator-button"
+            onClick={handleAddFields}
+            disabled={selected.size === 0}
+          >
+            Add {selected.size} field(s)
+          </button>
+        </>
+      )}
+
+      {status && (
+        <div className={`document-generator-status ${isError ? "error" : ""}`}>
+          {status}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default DocumentGenerator;
@@ -1,6 +1,9 @@
-import React from "react";
+import React, { useState } from "react";
+import { SessionFieldFormat } from "../../src/types/agent";
 import "./FieldPreview.css";
 
+const DEMO_SESSION_ID = "337851254565527952685384877024185083869";
+
 interface Field {
   id: string;
   label: string;
@@ -13,8 +16,10 @@ interface FieldPreviewProps {
   onDemoCardClick?: (
     fieldId: string,
     label: string,
-    getValue: (overview: any) => string | null
+    getValue: (overview: any) => string | null,
+    format?: SessionFieldFormat
   ) => Promise<void>;
+  onImportSession?: (sessionId: string) => Promise<void>;
   isLoadingDemo?: boolean;
   demoError?: string | null;
 }
@@ -23,20 +28,45 @@ function FieldPreview({
   fields,
   currentIndex,
   onDemoCardClick,
+  onImportSession,
   isLoadingDemo = false,
   demoError = null,
 }: FieldPreviewProps) {
+  const [importSessionId, setImportSessionId] = useState(DEMO_SESSION_ID);
+
   if (fields.length === 0) {
     return (
       <div className="field-preview">
         <div className="field-placeholder">
           <div>No session fields available. Press ⌥C to capture screen.</div>
         </div>
+        {onImportSession && (
+          <form
+            className="import-session"
+            onSubmit={(e) => {
+              e.preventDefault();
+              onImportSession(importSessionId.trim());
+            }}
+          >
+            <input
+              type="text"
+              value={importSessionId}
+              onChange={(e) => setImportSessionId(e.target.value)}
+              placeholder="Heidi session id"
+            />
+            <button
+              type="submit"
+              disabled={isLoadingDemo || !importSessionId.trim()}
+            >
+              {isLoadingDemo ? "Importing..." : "Import session"}
+            </button>
+          </form>
+        )}
         {onDemoCardClick && (
           <>
             <div className="field-placeholder-demo-id">
               <div>Demo Heidi session id:</div>
-              <div>337851254565527952685384877024185083869</div>
+              <div>{DEMO_SESSION_ID}</div>
             </div>
             {demoError && (
               <div className="demo-heidi-error">
@@ -101,7 +131,8 @@ function FieldPreview({
                       return result.length > 300
                         ? result.substring(0, 300) + "..."
                         : result;
-                    }
+                    },
+                    "markdown"
                   )
                 }
               >
@@ -0,0 +1,165 @@
+import React from "react";
+import { SessionField } from "../../src/types/agent";
+import {
+  FillPlan,
+  FillPlanStep,
+  FillStrategy,
+} from "../../src/types/fillPlan";
+import "./FillPlanReview.css";
+
+interface FillPlanReviewProps {
+  plan: FillPlan;
+  fields: SessionField[];
+  onChange: (plan: FillPlan) => void;
+  onExecute: () => void;
+  onDiscard: () => void;
+  isExecuting?: boolean;
+}
+
+function FillPlanReview({
+  plan,
+  fields,
+  onChange,
+  onExecute,
+  onDiscard,
+  isExecuting = false,
+}: FillPlanReviewProps) {
+  const updateStep = (index: number, partial: Partial<FillPlanStep>) => {
+    const steps = plan.steps.map((step, idx) =>
+      idx === index ? { ...step, ...partial } : step
+    );
+    onChange({ ...plan, steps });
+  };
+
+  // Value that will be typed for a step (mirrors resolveStepValue in main)
+  const getPreview = (step: FillPlanStep): string | null => {
+    if (step.action === "skip") return null;
+    if (step.manualValue) return step.manualValue;
+    const field = fields.find((f) => f.id === step.heidiFieldId);
+    return field?.value || null;
+  };
+
+  const fillCount = plan.steps.filter((step) => getPreview(step)).length;
+  const clickMode = plan.focusMode === "click";
+  const leftAloneLabel = clickMode ? "Left as is" : "Tab only";
+
+  const strategyLabels: Record<FillStrategy, string> = {
+    type: "type",
+    type_ahead: "type-ahead",
+    select_option: "pick option",
+    toggle_checkbox: clickMode ? "click to tick" : "space to tick",
+  };
+
+  return (
+    <div className="fill-plan-review">
+      <div className="fill-plan-header">
+        <div className="fill-plan-title">Review fill plan</div>
+        <div className="fill-plan-summary">
+          {fillCount} of {plan.steps.length} fields will be filled
+          {clickMode ? " · clicks each field" : " · in tab order"}
+        </div>
+      </div>
+
+      <div className="fill-plan-steps">
+        {plan.steps.map((step, index) => {
+          const preview = getPreview(step);
+          const isSkipped = step.action === "skip";
+          return (
+            <div
+              key={`${step.emrFieldId}-${index}`}
+              className={`fill-plan-step ${isSkipped ? "skipped" : ""} ${
+                !preview && !isSkipped ? "unmatched" : ""
+              }`}
+            >
+              <div className="fill-plan-step-header">
+                <div className="fill-plan-step-label">
+                  {index + 1}. {step.emrLabel}
+                </div>
+                {step.emrType && (
+                  <div className="fill-plan-step-type">
+                    {step.emrType}
+                    {step.strategy && step.strategy !== "type"
+                      ? ` · ${strategyLabels[step.strategy]}`
+                      : ""}
+                  </div>
+                )}
+              </div>
+
+              <div className="fill-plan-step-controls">
+                <select
+                  className="fill-plan-select"
+                  value={step.heidiFieldId ?? ""}
+                  disabled={isSkipped}
+                  onChange={(e) =>
+                    updateStep(index, {
+                      heidiFieldId: e.target.value || null,
+                    })
+                  }
+                >
+                  <option value="">— No match —</option>
+                  {fields.map((field) => (
+                    <option key={field.id} value={field.id}>
+                      {field.label}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  className={`fill-plan-skip ${isSkipped ? "active" : ""}`}
+                  onClick={() =>
+                    updateStep(index, {
+                      action: isSkipped ? "fill" : "skip",
+                    })
+                  }
+                >
+                  {isSkipped ? "Skipped" : "Skip"}
+                </button>
+              </div>
+
+              <input
+                type="text"
+                className="fill-plan-override"
+                placeholder="Manual value (overrides mapped field)"
+                value={step.manualValue ?? ""}
+                disabled={isSkipped}
+                onChange={(e) =>
+                  updateStep(index, {
+                    manualValue: e.target.value || undefined,
+                  })
+                }
+              />
+
+              <div className="fill-plan-step-preview">
+                {isSkipped
+                  ? `${leftAloneLabel} (skipped)`
+                  : preview
+                  ? preview.length > 100
+                    ? preview.substring(0, 100) + "..."
+                    : preview
+                  : `${leftAloneLabel} (no value)`}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="fill-plan-actions">
+        <button
+          className="fill-plan-button fill-plan-button-primary"
+          onClick={onExecute}
+          disabled={isExecuting}
+        >
+          {isExecuting ? "Filling..." : "Fill form"}
+        </button>
+        <button
+          className="fill-plan-button"
+          onClick={onDiscard}
+          disabled={isExecuting}
+        >
+          Discard
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default FillPlanReview;
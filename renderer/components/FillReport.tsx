@@ -0,0 +1,72 @@
+import React from "react";
+import {
+  FillPlanExecutionResult,
+  FillVerificationStatus,
+} from "../../src/types/fillPlan";
+import "./FillReport.css";
+
+interface FillReportProps {
+  report: FillPlanExecutionResult;
+  onDismiss: () => void;
+}
+
+const STATUS_LABELS: Record<FillVerificationStatus, string> = {
+  verified: "Verified",
+  truncated: "Truncated",
+  mismatch: "Different text",
+  empty: "Empty",
+  unverified: "Not checked",
+};
+
+function FillReport({ report, onDismiss }: FillReportProps) {
+  const flagged = report.steps.filter(
+    (step) =>
+      step.verification &&
+      step.verification.status !== "verified" &&
+      step.verification.status !== "unverified"
+  );
+  const verifiedCount = report.steps.filter(
+    (step) => step.verification?.status === "verified"
+  ).length;
+
+  return (
+    <div className={`fill-report ${flagged.length > 0 ? "flagged" : ""}`}>
+      <div className="fill-report-header">
+        <div className="fill-report-title">
+          {flagged.length > 0
+            ? `⚠️ ${flagged.length} field${
+                flagged.length === 1 ? "" : "s"
+              } need checking`
+            : "Form filled"}
+        </div>
+        <button className="fill-report-dismiss" onClick={onDismiss}>
+          Dismiss
+        </button>
+      </div>
+
+      <div className="fill-report-summary">
+        {report.filledCount} filled, {report.skippedCount} skipped
+        {verifiedCount > 0 ? `, ${verifiedCount} verified on screen` : ""}
+      </div>
+
+      {flagged.map((step) => (
+        <div key={step.emrFieldId} className="fill-report-step">
+          <div className="fill-report-step-header">
+            <span className="fill-report-step-label">{step.emrLabel}</span>
+            <span className="fill-report-step-status">
+              {STATUS_LABELS[step.verification!.status]}
+            </span>
+          </div>
+          <div className="fill-report-step-detail">
+            Expected: {step.value}
+          </div>
+          <div className="fill-report-step-detail">
+            On screen: {step.verification!.ocrText || "(nothing)"}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default FillReport;
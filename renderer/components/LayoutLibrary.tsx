@@ -0,0 +1,86 @@
+import React, { useState } from "react";
+import { LinkedWindow } from "../../src/types/agent";
+import "./LayoutLibrary.css";
+
+interface LayoutLibraryProps {
+  linkedEmrWindow?: LinkedWindow;
+}
+
+function LayoutLibrary({ linkedEmrWindow }: LayoutLibraryProps) {
+  const [status, setStatus] = useState<string>("");
+  const [isError, setIsError] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const handleExport = async () => {
+    setIsBusy(true);
+    try {
+      const result = await window.electronAPI.agent.exportLayoutBundle();
+      if (result.success) {
+        setIsError(false);
+        setStatus(
+          `Exported ${result.layoutCount} layouts and ${result.mappingCount} mappings to ${result.filePath}`
+        );
+      } else if (result.error) {
+        setIsError(true);
+        setStatus(result.error);
+      }
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setIsBusy(true);
+    try {
+      const result = await window.electronAPI.agent.importLayoutBundle();
+      if (result.success) {
+        setIsError(false);
+        setStatus(
+          `Imported ${result.layoutCount} layouts and ${result.mappingCount} mappings for ${result.emrId}`
+        );
+      } else if (result.error) {
+        setIsError(true);
+        setStatus(result.error);
+      }
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="layout-library">
+      <div className="layout-library-title">EMR Layout Library</div>
+      <div className="layout-library-hint">
+        Share analyzed layouts and confirmed mappings between workstations.
+      </div>
+      <div className="layout-library-actions">
+        <button
+          className="layout-library-button"
+          onClick={handleExport}
+          disabled={isBusy || !linkedEmrWindow}
+          title={
+            linkedEmrWindow
+              ? `Export layouts for ${linkedEmrWindow.appName}`
+              : "Link an EMR window first"
+          }
+        >
+          Export
+        </button>
+        <button
+          className="layout-library-button"
+          onClick={handleImport}
+          disabled={isBusy}
+        >
+          Import
+        </button>
+      </div>
+      {status && (
+        <div className={`layout-library-status ${isError ? "error" : ""}`}>
+          {status}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default LayoutLibrary;
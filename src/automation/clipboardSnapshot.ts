@@ -0,0 +1,79 @@
+import { clipboard, Data, NativeImage } from "electron";
+
+const POLL_INTERVAL_MS = 25;
+
+/**
+ * Every clipboard format Electron can write back (plain text, HTML, RTF, image, bookmark)
+ */
+export interface ClipboardSnapshot {
+  text: string;
+  html: string;
+  rtf: string;
+  image?: NativeImage;
+  bookmark?: { title: string; url: string }; // macOS and Windows only
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Read all formats currently on the clipboard
+ */
+export function captureClipboard(): ClipboardSnapshot {
+  const image = clipboard.readImage();
+  const snapshot: ClipboardSnapshot = {
+    text: clipboard.readText(),
+    html: clipboard.readHTML(),
+    rtf: clipboard.readRTF(),
+    image: image.isEmpty() ? undefined : image,
+  };
+
+  if (process.platform === "darwin" || process.platform === "win32") {
+    const bookmark = clipboard.readBookmark();
+    if (bookmark.url) {
+      snapshot.bookmark = bookmark;
+    }
+  }
+
+  return snapshot;
+}
+
+/**
+ * Put a snapshot back on the clipboard in a single write (an empty snapshot clears it)
+ */
+export function restoreClipboard(snapshot: ClipboardSnapshot): void {
+  const data: Data = {};
+  if (snapshot.text) data.text = snapshot.text;
+  if (snapshot.html) data.html = snapshot.html;
+  if (snapshot.rtf) data.rtf = snapshot.rtf;
+  if (snapshot.image) data.image = snapshot.image;
+  if (snapshot.bookmark) {
+    // Electron writes the bookmark's URL from `text`
+    data.bookmark = snapshot.bookmark.title;
+    data.text = data.text || snapshot.bookmark.url;
+  }
+
+  clipboard.clear();
+  if (Object.keys(data).length > 0) {
+    clipboard.write(data);
+  }
+}
+
+/**
+ * Wait until the clipboard text differs from `text` (something else was copied)
+ * Resolves false when nothing changed within the timeout
+ */
+export async function waitForClipboardChange(
+  text: string,
+  timeoutMs: number
+): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+  while (clipboard.readText() === text) {
+    if (Date.now() >= deadline) {
+      return false;
+    }
+    await sleep(POLL_INTERVAL_MS);
+  }
+  return true;
+}
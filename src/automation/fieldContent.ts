@@ -0,0 +1,101 @@
+import { clipboard } from "electron";
+import {
+  captureClipboard,
+  restoreClipboard,
+  waitForClipboardChange,
+} from "./clipboardSnapshot";
+import { fillField, pressKey, usesMacKeyboard } from "./keyboardFiller";
+import { DEFAULT_TYPING_PROFILE, TypingProfile } from "./textEntry";
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+const COPY_TIMEOUT_MS = 300; // An empty selection never changes the clipboard
+
+/**
+ * The focused field's text on each side of the caret
+ * `copied` is false when nothing could be copied: the field is empty, or the app
+ * ignores ⌘C, and the two can't be told apart
+ */
+export interface FocusedFieldContent {
+  before: string;
+  after: string;
+  copied: boolean;
+}
+
+/**
+ * Select from the caret to the start or end of the field and copy it, then put the
+ * caret back where it was
+ * Returns null when nothing was copied: the caret is at that edge, or the app ignores
+ * ⌘C, so no key is pressed that could move the caret
+ */
+async function copyToFieldEdge(
+  edge: "start" | "end",
+  sentinel: string
+): Promise<string | null> {
+  const mac = usesMacKeyboard();
+  const edgeKey =
+    edge === "start" ? (mac ? "up" : "home") : mac ? "down" : "end";
+
+  // Copying an empty selection leaves the clipboard untouched, so plant a sentinel
+  clipboard.writeText(sentinel);
+  await pressKey(edgeKey, ["shift", "primary"]);
+  await pressKey("c", ["primary"]);
+  await waitForClipboardChange(sentinel, COPY_TIMEOUT_MS);
+
+  const copied = clipboard.readText();
+  if (copied === sentinel) {
+    return null;
+  }
+
+  // An arrow collapses the selection onto its caret side
+  await pressKey(edge === "start" ? "right" : "left");
+  return copied;
+}
+
+/**
+ * Read the focused field's text without moving the caret (select to each edge + copy)
+ * The user's clipboard (all formats) is restored afterwards
+ */
+export async function readFocusedField(): Promise<FocusedFieldContent> {
+  const snapshot = captureClipboard();
+
+  try {
+    const sentinel = `__heidi_empty_field_${Date.now()}__`;
+    const before = await copyToFieldEdge("start", sentinel);
+    const after = await copyToFieldEdge("end", sentinel);
+    return {
+      before: before ?? "",
+      after: after ?? "",
+      copied: before !== null || after !== null,
+    };
+  } finally {
+    restoreClipboard(snapshot);
+  }
+}
+
+/**
+ * Read the focused field's text without moving the caret; an empty field reads as ""
+ */
+export async function readFocusedFieldContent(): Promise<string> {
+  const { before, after } = await readFocusedField();
+  return before + after;
+}
+
+/**
+ * Replace the focused field's text (select-all, then type or delete)
+ */
+export async function replaceFocusedFieldContent(
+  text: string,
+  typing: TypingProfile = DEFAULT_TYPING_PROFILE
+): Promise<void> {
+  await pressKey("a", ["primary"]);
+  await sleep(50);
+
+  if (text) {
+    await fillField(text, typing);
+  } else {
+    await pressKey("delete");
+  }
+}
@@ -0,0 +1,83 @@
+import { LinuxInputAutomation } from "./linuxInputAutomation";
+import { MacInputAutomation } from "./macInputAutomation";
+
+/**
+ * Named keys understood by every backend (single characters are also accepted)
+ */
+export type AutomationKey =
+  | "tab"
+  | "return"
+  | "escape"
+  | "backspace"
+  | "delete"
+  | "space"
+  | "up"
+  | "down"
+  | "left"
+  | "right"
+  | "home"
+  | "end";
+
+/**
+ * Modifier keys; "primary" is Command on macOS and Control elsewhere
+ */
+export type KeyModifier = "shift" | "control" | "alt" | "primary";
+
+/**
+ * Keyboard conventions of the platform being driven
+ * mac: ⌘↑/⌘↓ move to the start/end of a text field, popup menus open with Space
+ * pc: Ctrl+Home/Ctrl+End move to the start/end, dropdowns open with Alt+Down
+ */
+export type KeyboardConventions = "mac" | "pc";
+
+/**
+ * Keyboard and mouse automation used to focus and type into EMR fields
+ */
+export interface InputAutomation {
+  readonly name: string;
+  readonly keyboard: KeyboardConventions;
+  typeText(text: string): Promise<void>;
+  pressKey(key: AutomationKey | string, modifiers?: KeyModifier[]): Promise<void>;
+  pasteClipboard(): Promise<void>;
+  pressTab(): Promise<void>;
+  click(x: number, y: number): Promise<void>; // Left click at a global screen point
+}
+
+let inputAutomation: InputAutomation | null = null;
+
+/**
+ * Pick a backend for this platform (INPUT_AUTOMATION_BACKEND=mac|xdotool overrides)
+ */
+function createInputAutomation(): InputAutomation {
+  const backend = (process.env.INPUT_AUTOMATION_BACKEND || "").toLowerCase();
+
+  if (backend === "mac" || (!backend && process.platform === "darwin")) {
+    return new MacInputAutomation();
+  }
+
+  if (backend === "xdotool" || (!backend && process.platform === "linux")) {
+    return new LinuxInputAutomation();
+  }
+
+  throw new Error(
+    `Keyboard automation is not supported on ${process.platform}. Set INPUT_AUTOMATION_BACKEND to "mac" or "xdotool".`
+  );
+}
+
+/**
+ * Get the active input automation backend (created on first use)
+ */
+export function getInputAutomation(): InputAutomation {
+  if (!inputAutomation) {
+    inputAutomation = createInputAutomation();
+    console.log(`[AUTOMATION] Using ${inputAutomation.name} input backend`);
+  }
+  return inputAutomation;
+}
+
+/**
+ * Replace the input automation backend (null resets to the platform default)
+ */
+export function setInputAutomation(automation: InputAutomation | null): void {
+  inputAutomation = automation;
+}
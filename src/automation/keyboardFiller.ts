@@ -1,207 +1,96 @@
-import { exec } from "child_process";
-import { promisify } from "util";
-
-const execAsync = promisify(exec);
-
-const PASTE_DELAY_MS = 100;
-const TAB_DELAY_MS = 150;
+import {
+  AutomationKey,
+  getInputAutomation,
+  KeyModifier,
+} from "./inputAutomation";
+import {
+  DEFAULT_TYPING_PROFILE,
+  enterText,
+  RichFlavors,
+  TypingProfile,
+} from "./textEntry";
 
 function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
-// Escape for AppleScript string literal
-// Handles special characters that might cause font/encoding issues
-function escapeAppleScriptString(str: string): string {
-  // DO NOT normalize here - normalization happens before calling this function
-  // Normalizing to NFD breaks characters into base + combining marks which causes encoding issues
-
-  let escaped = str;
-
-  // Escape backslashes first (must be first)
-  escaped = escaped.replace(/\\/g, "\\\\");
-
-  // Escape double quotes
-  escaped = escaped.replace(/"/g, '\\"');
-
-  // Escape newlines and carriage returns
-  escaped = escaped.replace(/\r/g, "\\r");
-  escaped = escaped.replace(/\n/g, "\\n");
-
-  // Escape tabs
-  escaped = escaped.replace(/\t/g, "\\t");
-
-  return escaped;
+// Whether the active input backend drives a Mac (⌘↑ text navigation, popup menus)
+export function usesMacKeyboard(): boolean {
+  return getInputAutomation().keyboard === "mac";
 }
 
-// Type the text directly character-by-character for maximum reliability
-// This ensures proper font rendering and encoding across different EMR systems
-async function typeTextDirect(text: string): Promise<void> {
-  console.log(`[AUTOMATION] Typing ${text.length} characters directly...`);
-
-  // Normalize to NFC (composed form) to ensure proper character encoding
-  // NFC keeps characters like "é" as single composed characters, not decomposed (e + accent)
-  // This prevents encoding issues when typing
-  const normalizedText = text.normalize("NFC");
-
-  // For short text (< 50 chars), try typing all at once first (faster)
-  // For longer text, always use character-by-character (more reliable)
-  if (normalizedText.length <= 50) {
-    const escaped = escapeAppleScriptString(normalizedText);
-    const script = `
-      tell application "System Events"
-        keystroke "${escaped}"
-      end tell
-    `;
-    try {
-      await execAsync(`osascript -e '${script}'`);
-      await sleep(100 + normalizedText.length * 10); // Delay proportional to length
-      console.log(`[AUTOMATION] Bulk typing completed successfully`);
-    } catch (error) {
-      console.error(
-        `[AUTOMATION] Bulk typing failed, falling back to character-by-character:`,
-        error
-      );
-      // Fall through to character-by-character method for reliability
-      await typeTextCharacterByCharacter(normalizedText);
-    }
-  } else {
-    // Long text: always type character-by-character for reliability
-    await typeTextCharacterByCharacter(normalizedText);
+// Press Tab on the active input backend
+export async function pressTab(): Promise<void> {
+  console.log(`[AUTOMATION] pressTab called`);
+
+  try {
+    await getInputAutomation().pressTab();
+    console.log(`[AUTOMATION] pressTab completed successfully`);
+  } catch (error) {
+    console.error(`[AUTOMATION] Error in pressTab:`, error);
+    throw error;
   }
 }
 
-// Type text character-by-character (most reliable but slower)
-// This method ensures proper font rendering for each character
-async function typeTextCharacterByCharacter(text: string): Promise<void> {
-  console.log(`[AUTOMATION] Typing character-by-character for reliability...`);
-
-  for (let i = 0; i < text.length; i++) {
-    const char = text[i];
-    const charCode = char.charCodeAt(0);
-
-    // Skip control characters that shouldn't be typed
-    if (charCode < 32 && charCode !== 9 && charCode !== 10 && charCode !== 13) {
-      console.warn(
-        `[AUTOMATION] Skipping control character at position ${i}: ${charCode}`
-      );
-      continue;
-    }
+// Paste from clipboard (Command+V on macOS, Ctrl+V elsewhere)
+export async function pasteClipboard(): Promise<void> {
+  console.log(`[AUTOMATION] pasteClipboard called`);
 
-    const escaped = escapeAppleScriptString(char);
-
-    const script = `
-      tell application "System Events"
-        keystroke "${escaped}"
-      end tell
-    `;
-
-    try {
-      await execAsync(`osascript -e '${script}'`);
-      // Small delay between characters (15ms) - ensures proper font rendering
-      await sleep(15);
-    } catch (error) {
-      console.error(
-        `[AUTOMATION] Error typing character "${char}" (code: ${charCode}) at position ${i}:`,
-        error
-      );
-      // Continue with next character even if one fails
-      // Add a small delay before continuing
-      await sleep(10);
-    }
+  try {
+    await getInputAutomation().pasteClipboard();
+    console.log(`[AUTOMATION] pasteClipboard completed successfully`);
+  } catch (error) {
+    console.error(`[AUTOMATION] Error in pasteClipboard:`, error);
+    throw error;
   }
-
-  // Final delay to ensure all characters are processed and rendered
-  await sleep(150);
 }
 
-// Use AppleScript to press Tab key
-export async function pressTab(): Promise<void> {
-  console.log(`[AUTOMATION] pressTab called`);
-  // Use keystroke "\\t" which is more reliable than key code for Tab
-  const script = `
-    tell application "System Events"
-      keystroke tab
-    end tell
-  `;
-
-  console.log(`[AUTOMATION] Tab script:`, script);
-  const command = `osascript -e '${script}'`;
-  console.log(`[AUTOMATION] Tab command: ${command}`);
+// Press a named key or character on the active input backend
+export async function pressKey(
+  key: AutomationKey | string,
+  modifiers: KeyModifier[] = []
+): Promise<void> {
+  console.log(
+    `[AUTOMATION] pressKey called: ${[...modifiers, key].join("+")}`
+  );
 
   try {
-    console.log(`[AUTOMATION] Executing Tab command...`);
-    const result = await execAsync(command);
-    console.log(`[AUTOMATION] Tab command executed successfully`);
-    if (result.stdout) console.log(`[AUTOMATION] Tab stdout: ${result.stdout}`);
-    if (result.stderr) console.log(`[AUTOMATION] Tab stderr: ${result.stderr}`);
-    await sleep(TAB_DELAY_MS);
-    console.log(`[AUTOMATION] pressTab completed successfully`);
+    await getInputAutomation().pressKey(key, modifiers);
   } catch (error) {
-    console.error(`[AUTOMATION] Error in pressTab:`, error);
-    if (error instanceof Error) {
-      console.error(`[AUTOMATION] Tab error message: ${error.message}`);
-      console.error(`[AUTOMATION] Tab error stack: ${error.stack}`);
-      if (
-        error.message.includes("not allowed assistive") ||
-        error.message.includes("assistive")
-      ) {
-        throw new Error(
-          "Accessibility permissions required. Please grant permissions in System Settings → Privacy & Security → Accessibility."
-        );
-      }
-      throw new Error(`Failed to press Tab: ${error.message}`);
-    }
+    console.error(`[AUTOMATION] Error in pressKey:`, error);
     throw error;
   }
 }
 
-// Use AppleScript to press Command+V (paste from clipboard)
-export async function pressCommandV(): Promise<void> {
-  console.log(`[AUTOMATION] pressCommandV called`);
-  const script = `
-    tell application "System Events"
-      keystroke "v" using {command down}
-    end tell
-  `;
-
-  const command = `osascript -e '${script}'`;
-  console.log(`[AUTOMATION] Command+V command: ${command}`);
+// Click a global screen point to focus the control under it
+export async function clickAt(point: { x: number; y: number }): Promise<void> {
+  console.log(`[AUTOMATION] clickAt called: ${point.x},${point.y}`);
 
   try {
-    console.log(`[AUTOMATION] Executing Command+V command...`);
-    const result = await execAsync(command);
-    console.log(`[AUTOMATION] Command+V command executed successfully`);
-    if (result.stdout)
-      console.log(`[AUTOMATION] Command+V stdout: ${result.stdout}`);
-    if (result.stderr)
-      console.log(`[AUTOMATION] Command+V stderr: ${result.stderr}`);
-    await sleep(PASTE_DELAY_MS);
-    console.log(`[AUTOMATION] pressCommandV completed successfully`);
+    await getInputAutomation().click(point.x, point.y);
   } catch (error) {
-    console.error(`[AUTOMATION] Error in pressCommandV:`, error);
-    if (error instanceof Error) {
-      console.error(`[AUTOMATION] Command+V error message: ${error.message}`);
-      console.error(`[AUTOMATION] Command+V error stack: ${error.stack}`);
-      if (
-        error.message.includes("not allowed assistive") ||
-        error.message.includes("assistive")
-      ) {
-        throw new Error(
-          "Accessibility permissions required. Please grant permissions in System Settings → Privacy & Security → Accessibility."
-        );
-      }
-      throw new Error(`Failed to press Command+V: ${error.message}`);
-    }
+    console.error(`[AUTOMATION] Error in clickAt:`, error);
     throw error;
   }
 }
 
-// Replace fillField to use direct typing (no clipboard)
-export async function fillField(value: string): Promise<void> {
+/**
+ * @deprecated Use pasteClipboard instead
+ */
+export async function pressCommandV(): Promise<void> {
+  return pasteClipboard();
+}
+
+// Enter a value with the EMR's typing profile (keystrokes unless it asks for paste)
+// Rich flavors (HTML/RTF of a formatted note) are pasted alongside the plain text
+export async function fillField(
+  value: string,
+  typing: TypingProfile = DEFAULT_TYPING_PROFILE,
+  flavors?: RichFlavors
+): Promise<void> {
   console.log(`[AUTOMATION] fillField called with value: "${value}"`);
   try {
-    await typeTextDirect(value);
+    await enterText(value, typing, false, flavors);
     console.log(`[AUTOMATION] fillField completed successfully`);
   } catch (error) {
     console.error(`[AUTOMATION] Error in fillField:`, error);
@@ -209,7 +98,11 @@ export async function fillField(value: string): Promise<void> {
   }
 }
 
-export async function fillFieldAndTab(value: string): Promise<void> {
+export async function fillFieldAndTab(
+  value: string,
+  typing: TypingProfile = DEFAULT_TYPING_PROFILE,
+  flavors?: RichFlavors
+): Promise<void> {
   console.log(`[AUTOMATION] ========================================`);
   console.log(`[AUTOMATION] fillFieldAndTab STARTED`);
   console.log(`[AUTOMATION] Value to fill: "${value}"`);
@@ -217,7 +110,7 @@ export async function fillFieldAndTab(value: string): Promise<void> {
 
   try {
     console.log(`[AUTOMATION] Step 1: Calling fillField...`);
-    await fillField(value);
+    await fillField(value, typing, flavors);
     console.log(`[AUTOMATION] Step 1: fillField completed`);
 
     // Add extra delay before Tab to ensure field value is fully entered
@@ -247,3 +140,57 @@ export async function fillFieldAndTab(value: string): Promise<void> {
     throw error;
   }
 }
+
+/**
+ * Open the focused dropdown and choose the option at `optionIndex`
+ * macOS popup menus open with Space and jump to an item as its name is typed;
+ * elsewhere Alt+Down opens the list, Home resets to the first option and
+ * Down arrows to the option
+ */
+export async function selectDropdownOption(
+  optionIndex: number,
+  optionText: string
+): Promise<void> {
+  console.log(`[AUTOMATION] selectDropdownOption: option ${optionIndex}`);
+
+  if (usesMacKeyboard()) {
+    await pressKey("space");
+    await sleep(150);
+    await getInputAutomation().typeText(optionText);
+    await sleep(100);
+  } else {
+    await pressKey("down", ["alt"]);
+    await sleep(150);
+    await pressKey("home");
+    for (let i = 0; i < optionIndex; i++) {
+      await pressKey("down");
+      await sleep(30);
+    }
+  }
+  await pressKey("return");
+  await sleep(100);
+}
+
+/**
+ * Choose the dropdown option at `optionIndex`, then Tab
+ */
+export async function selectDropdownOptionAndTab(
+  optionIndex: number,
+  optionText: string
+): Promise<void> {
+  await selectDropdownOption(optionIndex, optionText);
+  await pressTab();
+}
+
+/**
+ * Tick the focused checkbox with Space (assumes it starts unticked), then Tab
+ */
+export async function toggleCheckboxAndTab(checked: boolean): Promise<void> {
+  console.log(`[AUTOMATION] toggleCheckboxAndTab: ${checked ? "check" : "leave"}`);
+
+  if (checked) {
+    await pressKey("space");
+    await sleep(100);
+  }
+  await pressTab();
+}
@@ -0,0 +1,128 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import {
+  AutomationKey,
+  InputAutomation,
+  KeyboardConventions,
+  KeyModifier,
+} from "./inputAutomation";
+
+const execFileAsync = promisify(execFile);
+
+const TYPE_DELAY_MS = 12; // xdotool per-character delay
+const PASTE_DELAY_MS = 100;
+const TAB_DELAY_MS = 150;
+const CLICK_DELAY_MS = 150;
+
+/**
+ * X11 keysyms for named keys
+ */
+const KEYSYMS: Record<AutomationKey, string> = {
+  tab: "Tab",
+  return: "Return",
+  escape: "Escape",
+  backspace: "BackSpace",
+  delete: "Delete",
+  space: "space",
+  up: "Up",
+  down: "Down",
+  left: "Left",
+  right: "Right",
+  home: "Home",
+  end: "End",
+};
+
+const MODIFIERS: Record<KeyModifier, string> = {
+  shift: "shift",
+  control: "ctrl",
+  alt: "alt",
+  primary: "ctrl",
+};
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Linux (X11) backend using xdotool
+ * Works for local X sessions and Citrix/VDI clients that forward X11 key events
+ */
+export class LinuxInputAutomation implements InputAutomation {
+  readonly name = "Linux (xdotool)";
+  readonly keyboard: KeyboardConventions = "pc";
+
+  private checkedXdotool = false;
+
+  async typeText(text: string): Promise<void> {
+    console.log(`[AUTOMATION] Typing ${text.length} characters with xdotool...`);
+
+    // Skip control characters other than tab/newline (xdotool types those as keys)
+    const normalizedText = text
+      .normalize("NFC")
+      .replace(/[\x00-\x08\x0b\x0c\x0e-\x1f]/g, "");
+
+    await this.xdotool([
+      "type",
+      "--clearmodifiers",
+      "--delay",
+      String(TYPE_DELAY_MS),
+      "--",
+      normalizedText,
+    ]);
+    await sleep(100);
+  }
+
+  async pressKey(
+    key: AutomationKey | string,
+    modifiers: KeyModifier[] = []
+  ): Promise<void> {
+    const keysym = KEYSYMS[key as AutomationKey] || key;
+    const combo = [...modifiers.map((m) => MODIFIERS[m]), keysym].join("+");
+    await this.xdotool(["key", "--clearmodifiers", combo]);
+  }
+
+  async pasteClipboard(): Promise<void> {
+    await this.pressKey("v", ["primary"]);
+    await sleep(PASTE_DELAY_MS);
+  }
+
+  async pressTab(): Promise<void> {
+    await this.pressKey("tab");
+    await sleep(TAB_DELAY_MS);
+  }
+
+  async click(x: number, y: number): Promise<void> {
+    await this.xdotool([
+      "mousemove",
+      "--sync",
+      String(Math.round(x)),
+      String(Math.round(y)),
+      "click",
+      "1",
+    ]);
+    await sleep(CLICK_DELAY_MS);
+  }
+
+  private async xdotool(args: string[]): Promise<void> {
+    if (!this.checkedXdotool) {
+      try {
+        await execFileAsync("which", ["xdotool"]);
+        this.checkedXdotool = true;
+      } catch {
+        throw new Error(
+          "xdotool not found. Please install it: sudo apt install xdotool"
+        );
+      }
+    }
+
+    try {
+      await execFileAsync("xdotool", args);
+    } catch (error) {
+      throw new Error(
+        `xdotool ${args[0]} failed: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+}
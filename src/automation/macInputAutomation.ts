@@ -0,0 +1,211 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import {
+  AutomationKey,
+  InputAutomation,
+  KeyboardConventions,
+  KeyModifier,
+} from "./inputAutomation";
+
+const execFileAsync = promisify(execFile);
+
+const PASTE_DELAY_MS = 100;
+const TAB_DELAY_MS = 150;
+const CLICK_DELAY_MS = 150;
+
+/**
+ * AppleScript key codes for named keys
+ */
+const KEY_CODES: Record<AutomationKey, number> = {
+  tab: 48,
+  return: 36,
+  escape: 53,
+  backspace: 51,
+  delete: 117,
+  space: 49,
+  up: 126,
+  down: 125,
+  left: 123,
+  right: 124,
+  home: 115,
+  end: 119,
+};
+
+const MODIFIERS: Record<KeyModifier, string> = {
+  shift: "shift down",
+  control: "control down",
+  alt: "option down",
+  primary: "command down",
+};
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Escape for AppleScript string literal
+// Handles special characters that might cause font/encoding issues
+function escapeAppleScriptString(str: string): string {
+  // DO NOT normalize here - normalization happens before calling this function
+  // Normalizing to NFD breaks characters into base + combining marks which causes encoding issues
+
+  let escaped = str;
+
+  // Escape backslashes first (must be first)
+  escaped = escaped.replace(/\\/g, "\\\\");
+
+  // Escape double quotes
+  escaped = escaped.replace(/"/g, '\\"');
+
+  // Escape newlines and carriage returns
+  escaped = escaped.replace(/\r/g, "\\r");
+  escaped = escaped.replace(/\n/g, "\\n");
+
+  // Escape tabs
+  escaped = escaped.replace(/\t/g, "\\t");
+
+  return escaped;
+}
+
+/**
+ * Run a System Events script, translating missing Accessibility permissions
+ * osascript gets the script as an argument, not through a shell, so quotes in typed
+ * text ("O'Brien") reach AppleScript as-is; string literals in `body` must be escaped
+ * with escapeAppleScriptString
+ */
+async function runSystemEvents(body: string, action: string): Promise<void> {
+  const script = `
+    tell application "System Events"
+      ${body}
+    end tell
+  `;
+
+  try {
+    await execFileAsync("osascript", ["-e", script]);
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message.includes("assistive")) {
+        throw new Error(
+          "Accessibility permissions required. Please grant permissions in System Settings → Privacy & Security → Accessibility."
+        );
+      }
+      throw new Error(`Failed to ${action}: ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * macOS backend using AppleScript and System Events
+ */
+export class MacInputAutomation implements InputAutomation {
+  readonly name = "macOS (AppleScript)";
+  readonly keyboard: KeyboardConventions = "mac";
+
+  // Send the text as one keystroke burst; chunking, per-character typing and delays
+  // come from the EMR's typing profile (see textEntry)
+  async typeText(text: string): Promise<void> {
+    console.log(`[AUTOMATION] Typing ${text.length} characters directly...`);
+
+    // Normalize to NFC (composed form) to ensure proper character encoding
+    // NFC keeps characters like "é" as single composed characters, not decomposed (e + accent)
+    // This prevents encoding issues when typing
+    const normalizedText = text.normalize("NFC");
+
+    try {
+      await runSystemEvents(
+        `keystroke "${escapeAppleScriptString(normalizedText)}"`,
+        "type text"
+      );
+      await sleep(100 + normalizedText.length * 10); // Delay proportional to length
+      console.log(`[AUTOMATION] Bulk typing completed successfully`);
+    } catch (error) {
+      console.error(
+        `[AUTOMATION] Bulk typing failed, falling back to character-by-character:`,
+        error
+      );
+      // Fall through to character-by-character method for reliability
+      await this.typeTextCharacterByCharacter(normalizedText);
+    }
+  }
+
+  async pressKey(
+    key: AutomationKey | string,
+    modifiers: KeyModifier[] = []
+  ): Promise<void> {
+    const using = modifiers.length
+      ? ` using {${modifiers.map((m) => MODIFIERS[m]).join(", ")}}`
+      : "";
+    const keyCode = KEY_CODES[key as AutomationKey];
+    const body =
+      keyCode !== undefined
+        ? `key code ${keyCode}${using}`
+        : `keystroke "${escapeAppleScriptString(key)}"${using}`;
+
+    await runSystemEvents(body, `press ${key}`);
+  }
+
+  // Use AppleScript to press Command+V (paste from clipboard)
+  async pasteClipboard(): Promise<void> {
+    await this.pressKey("v", ["primary"]);
+    await sleep(PASTE_DELAY_MS);
+  }
+
+  async pressTab(): Promise<void> {
+    // keystroke tab is more reliable than key code for Tab
+    await runSystemEvents("keystroke tab", "press Tab");
+    await sleep(TAB_DELAY_MS);
+  }
+
+  // System Events clicks at a global point in the frontmost process
+  async click(x: number, y: number): Promise<void> {
+    await runSystemEvents(
+      `click at {${Math.round(x)}, ${Math.round(y)}}`,
+      "click"
+    );
+    await sleep(CLICK_DELAY_MS);
+  }
+
+  // Type text character-by-character (most reliable but slower)
+  // This method ensures proper font rendering for each character
+  private async typeTextCharacterByCharacter(text: string): Promise<void> {
+    console.log(`[AUTOMATION] Typing character-by-character for reliability...`);
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      const charCode = char.charCodeAt(0);
+
+      // Skip control characters that shouldn't be typed
+      if (
+        charCode < 32 &&
+        charCode !== 9 &&
+        charCode !== 10 &&
+        charCode !== 13
+      ) {
+        console.warn(
+          `[AUTOMATION] Skipping control character at position ${i}: ${charCode}`
+        );
+        continue;
+      }
+
+      try {
+        await runSystemEvents(
+          `keystroke "${escapeAppleScriptString(char)}"`,
+          "type character"
+        );
+        // Small delay between characters (15ms) - ensures proper font rendering
+        await sleep(15);
+      } catch (error) {
+        console.error(
+          `[AUTOMATION] Error typing character "${char}" (code: ${charCode}) at position ${i}:`,
+          error
+        );
+        // Continue with next character even if one fails
+        // Add a small delay before continuing
+        await sleep(10);
+      }
+    }
+
+    // Final delay to ensure all characters are processed and rendered
+    await sleep(150);
+  }
+}
@@ -0,0 +1,194 @@
+import {
+  AutomationKey,
+  InputAutomation,
+  KeyboardConventions,
+  KeyModifier,
+} from "./inputAutomation";
+
+/**
+ * A single input event captured by the recording backend
+ */
+export type RecordedInputEvent =
+  | { kind: "type"; text: string }
+  | { kind: "key"; key: string; modifiers: KeyModifier[] }
+  | { kind: "paste"; text: string } // Clipboard contents at the time of the paste
+  | { kind: "tab" }
+  | { kind: "click"; x: number; y: number };
+
+/**
+ * In-process backend that records input instead of sending it to the OS
+ * Used by the end-to-end tests to assert on exactly what would have been typed
+ * Given a clipboard writer, it also simulates the focused text field (text, caret and
+ * selection), so copies read back what was typed or pasted into it
+ */
+export class RecordingInputAutomation implements InputAutomation {
+  readonly name = "Recording (no OS input)";
+
+  keyboard: KeyboardConventions = "mac";
+
+  readonly events: RecordedInputEvent[] = [];
+
+  private fieldText = "";
+  private caret = 0;
+  private anchor: number | null = null; // Other end of the selection, if any
+
+  /**
+   * @param readClipboard Returns the clipboard text a paste would insert
+   * @param writeClipboard Receives the simulated field's selected text on copy
+   */
+  constructor(
+    private readonly readClipboard: () => string = () => "",
+    private readonly writeClipboard?: (text: string) => void
+  ) {}
+
+  async typeText(text: string): Promise<void> {
+    const normalized = text.normalize("NFC");
+    this.events.push({ kind: "type", text: normalized });
+    this.insert(normalized);
+  }
+
+  async pressKey(
+    key: AutomationKey | string,
+    modifiers: KeyModifier[] = []
+  ): Promise<void> {
+    this.events.push({ kind: "key", key, modifiers: [...modifiers] });
+
+    const [start, end] = this.selection();
+    const shift = modifiers.includes("shift");
+    const primary = modifiers.includes("primary");
+    const toStart = this.keyboard === "mac" ? "up" : "home";
+    const toEnd = this.keyboard === "mac" ? "down" : "end";
+
+    if (key === "tab") {
+      this.focusField();
+    } else if (primary && key === "a") {
+      this.anchor = 0;
+      this.caret = this.fieldText.length;
+    } else if (primary && key === "c") {
+      // Copying an empty selection leaves the clipboard untouched
+      if (this.writeClipboard && end > start) {
+        this.writeClipboard(this.fieldText.slice(start, end));
+      }
+    } else if (primary && (key === toStart || key === toEnd)) {
+      if (shift) {
+        this.anchor = this.anchor ?? this.caret;
+      } else {
+        this.anchor = null;
+      }
+      this.caret = key === toStart ? 0 : this.fieldText.length;
+    } else if (key === "left" || key === "right") {
+      if (shift) {
+        this.anchor = this.anchor ?? this.caret;
+        this.caret = this.clamp(this.caret + (key === "left" ? -1 : 1));
+      } else {
+        // An arrow collapses a selection to that side, or moves the caret
+        this.caret =
+          end > start
+            ? key === "left"
+              ? start
+              : end
+            : this.clamp(this.caret + (key === "left" ? -1 : 1));
+        this.anchor = null;
+      }
+    } else if (key === "delete" || key === "backspace") {
+      if (end > start) {
+        this.replace(start, end, "");
+      } else if (key === "backspace" && start > 0) {
+        this.replace(start - 1, start, "");
+      } else if (key === "delete") {
+        this.replace(start, Math.min(this.fieldText.length, start + 1), "");
+      }
+    } else {
+      this.anchor = null;
+    }
+  }
+
+  async pasteClipboard(): Promise<void> {
+    const text = this.readClipboard();
+    this.events.push({ kind: "paste", text });
+    this.insert(text);
+  }
+
+  async pressTab(): Promise<void> {
+    this.events.push({ kind: "tab" });
+    this.focusField();
+  }
+
+  async click(x: number, y: number): Promise<void> {
+    this.events.push({ kind: "click", x: Math.round(x), y: Math.round(y) });
+    this.focusField();
+  }
+
+  /**
+   * Simulate focus moving to a field that already holds `text`
+   * The caret goes to the end unless a position is given
+   */
+  focusField(text: string = "", caret: number = text.length): void {
+    this.fieldText = text;
+    this.caret = this.clamp(caret);
+    this.anchor = null;
+  }
+
+  /**
+   * Text of the simulated focused field
+   */
+  get focusedFieldText(): string {
+    return this.fieldText;
+  }
+
+  /**
+   * Caret position in the simulated focused field
+   */
+  get caretPosition(): number {
+    return this.caret;
+  }
+
+  private selection(): [number, number] {
+    const anchor = this.anchor ?? this.caret;
+    return [Math.min(anchor, this.caret), Math.max(anchor, this.caret)];
+  }
+
+  private clamp(index: number): number {
+    return Math.max(0, Math.min(this.fieldText.length, index));
+  }
+
+  private replace(start: number, end: number, text: string): void {
+    this.fieldText =
+      this.fieldText.slice(0, start) + text + this.fieldText.slice(end);
+    this.caret = start + text.length;
+    this.anchor = null;
+  }
+
+  private insert(text: string): void {
+    const [start, end] = this.selection();
+    this.replace(start, end, text);
+  }
+
+  /**
+   * Recorded events as one readable line each, e.g. `type "Jane"`, `tab`, `key primary+v`, `click 120,340`
+   */
+  transcript(): string[] {
+    return this.events.map((event) => {
+      switch (event.kind) {
+        case "type":
+          return `type ${JSON.stringify(event.text)}`;
+        case "paste":
+          return `paste ${JSON.stringify(event.text)}`;
+        case "key":
+          return `key ${[...event.modifiers, event.key].join("+")}`;
+        case "tab":
+          return "tab";
+        case "click":
+          return `click ${event.x},${event.y}`;
+      }
+    });
+  }
+
+  /**
+   * Forget everything recorded so far
+   */
+  clear(): void {
+    this.events.length = 0;
+    this.focusField();
+  }
+}
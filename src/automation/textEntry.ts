@@ -0,0 +1,201 @@
+import { clipboard } from "electron";
+import {
+  captureClipboard,
+  restoreClipboard,
+  waitForClipboardChange,
+} from "./clipboardSnapshot";
+import { getInputAutomation } from "./inputAutomation";
+
+/**
+ * How text is sent to the EMR
+ * - auto: ⌥V pastes, fill plans type in keystroke bursts (rich notes are always pasted)
+ * - paste: clipboard + ⌘V/Ctrl+V (fast, keeps encoding; some Java EMRs ignore it)
+ * - keystroke: bursts of `chunkSize` characters
+ * - per_character: one key event per character (for EMRs that drop fast keystrokes)
+ */
+export type TypingStrategy = "auto" | "paste" | "keystroke" | "per_character";
+
+/**
+ * How line breaks in a value are entered
+ * - literal: sent as part of the text
+ * - enter: Return between lines
+ * - shift_enter: Shift+Return between lines (soft break in editors where Return submits)
+ */
+export type NewlineMode = "literal" | "enter" | "shift_enter";
+
+export interface TypingProfile {
+  strategy: TypingStrategy;
+  chunkSize: number; // Characters per keystroke burst
+  chunkDelayMs: number; // Pause between bursts
+  charDelayMs: number; // Pause between characters (per_character)
+  newline: NewlineMode;
+  autoFallback: boolean; // Re-type a ⌥V paste that didn't land; repeated failures switch the EMR to keystroke
+  clipboardAfterPaste: "restore" | "clear"; // "clear" leaves nothing (not even the user's copy) behind
+}
+
+export const DEFAULT_TYPING_PROFILE: TypingProfile = {
+  strategy: "auto",
+  chunkSize: 50,
+  chunkDelayMs: 100,
+  charDelayMs: 15,
+  newline: "literal",
+  autoFallback: true,
+  clipboardAfterPaste: "restore",
+};
+
+/**
+ * Rich clipboard flavors written alongside the plain text when pasting (typing ignores them)
+ */
+export interface RichFlavors {
+  html?: string;
+  rtf?: string;
+}
+
+const PASTE_TIMEOUT_MS = 1000; // Longest wait for the paste-complete signal
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Split a value into the lines entered between newline key presses
+ */
+function splitLines(text: string, newline: NewlineMode): string[] {
+  return newline === "literal" ? [text] : text.split(/\r\n|\r|\n/);
+}
+
+function hasRichFlavor(flavors?: RichFlavors): boolean {
+  return !!(flavors && (flavors.html || flavors.rtf));
+}
+
+async function pressNewline(newline: NewlineMode): Promise<void> {
+  await getInputAutomation().pressKey(
+    "return",
+    newline === "shift_enter" ? ["shift"] : []
+  );
+}
+
+/**
+ * Type text with keystrokes, in bursts or one character at a time
+ */
+export async function typeWithProfile(
+  text: string,
+  profile: TypingProfile
+): Promise<void> {
+  const automation = getInputAutomation();
+  const lines = splitLines(text, profile.newline);
+
+  for (let i = 0; i < lines.length; i++) {
+    if (i > 0) {
+      await pressNewline(profile.newline);
+    }
+
+    // Split by code point so surrogate pairs stay together
+    const chars = Array.from(lines[i]);
+    const size =
+      profile.strategy === "per_character" ? 1 : Math.max(1, profile.chunkSize);
+    const delay =
+      profile.strategy === "per_character"
+        ? profile.charDelayMs
+        : profile.chunkDelayMs;
+
+    for (let start = 0; start < chars.length; start += size) {
+      if (start > 0) {
+        await sleep(delay);
+      }
+      await automation.typeText(chars.slice(start, start + size).join(""));
+    }
+  }
+}
+
+/**
+ * Wait until the EMR has consumed a paste: select the character before the caret and copy it
+ * Key events are handled in order, so once that copy lands the paste is done
+ * Times out when the copy changes nothing (one-character value, or an EMR that ignores copy)
+ */
+async function waitForPasteComplete(pasted: string): Promise<void> {
+  const automation = getInputAutomation();
+  await automation.pressKey("left", ["shift"]);
+  await automation.pressKey("c", ["primary"]);
+  const signalled = await waitForClipboardChange(pasted, PASTE_TIMEOUT_MS);
+  await automation.pressKey("right");
+
+  if (!signalled) {
+    console.warn(
+      `[AUTOMATION] No paste-complete signal after ${PASTE_TIMEOUT_MS}ms, continuing`
+    );
+  }
+}
+
+/**
+ * Paste text through the clipboard
+ * Rich flavors are pasted in one go with the text (the editor lays out the lines itself)
+ * Afterwards every clipboard format the user had is put back, or the clipboard is cleared
+ */
+export async function pasteWithProfile(
+  text: string,
+  profile: TypingProfile,
+  flavors?: RichFlavors
+): Promise<void> {
+  const automation = getInputAutomation();
+  const snapshot = captureClipboard();
+  const rich = hasRichFlavor(flavors);
+  const lines = rich ? [text] : splitLines(text, profile.newline);
+
+  try {
+    for (let i = 0; i < lines.length; i++) {
+      if (i > 0) {
+        await pressNewline(profile.newline);
+      }
+      if (!lines[i]) {
+        continue;
+      }
+
+      if (rich) {
+        clipboard.write({ text: lines[i], ...flavors });
+      } else {
+        clipboard.writeText(lines[i]);
+      }
+      await automation.pasteClipboard();
+      // If the clipboard changes before the EMR reads it, the wrong text is pasted
+      await waitForPasteComplete(lines[i]);
+    }
+  } finally {
+    try {
+      if (profile.clipboardAfterPaste === "clear") {
+        clipboard.clear();
+      } else {
+        restoreClipboard(snapshot);
+      }
+    } catch (restoreError) {
+      console.warn("[AUTOMATION] Failed to restore the clipboard:", restoreError);
+    }
+  }
+}
+
+/**
+ * Whether a profile sends text through the clipboard
+ * `preferPaste` decides for "auto" (⌥V pastes, fill plans type)
+ */
+export function usesPaste(profile: TypingProfile, preferPaste: boolean): boolean {
+  return (
+    profile.strategy === "paste" || (profile.strategy === "auto" && preferPaste)
+  );
+}
+
+/**
+ * Enter text into the focused field with the profile's strategy
+ * Rich flavors make "auto" paste, since keystrokes can't carry formatting
+ */
+export async function enterText(
+  text: string,
+  profile: TypingProfile,
+  preferPaste: boolean = false,
+  flavors?: RichFlavors
+): Promise<void> {
+  if (usesPaste(profile, preferPaste || hasRichFlavor(flavors))) {
+    await pasteWithProfile(text, profile, flavors);
+  } else {
+    await typeWithProfile(text, profile);
+  }
+}
@@ -1,20 +1,39 @@
 /**
  * Vision AI Configuration management
- * Supports OpenAI and Claude (Anthropic) for screenshot analysis
+ * Supports OpenAI, Claude (Anthropic), OpenAI-compatible servers ("custom") and Ollama
  * Reads from environment variables with sensible defaults
  */
 
+export type VisionAiProvider =
+  | "openai"
+  | "claude"
+  | "anthropic"
+  | "custom"
+  | "ollama";
+
 export interface VisionAiConfig {
   apiKey?: string;
   apiUrl?: string;
   modelId?: string;
-  provider?: "openai" | "claude" | "anthropic" | "custom";
+  provider?: VisionAiProvider;
   enabled: boolean;
 }
 
+/**
+ * Model picked by the startup capability probe when none is configured
+ */
+let probedModelId: string | undefined;
+
+/**
+ * Remember the model chosen by the capability probe
+ */
+export function setProbedModelId(modelId: string | undefined): void {
+  probedModelId = modelId;
+}
+
 /**
  * Get Vision AI configuration from environment variables
- * Supports both OpenAI and Claude (Anthropic)
+ * Supports OpenAI, Claude (Anthropic), OpenAI-compatible servers and Ollama
  */
 export function getVisionAiConfig(): VisionAiConfig {
   // Check which provider is configured
@@ -26,10 +45,37 @@ export function getVisionAiConfig(): VisionAiConfig {
     ""
   ).toLowerCase();
 
+  if (providerEnv === "ollama") {
+    // Ollama (local, no key); images go in the /api/chat "images" array
+    const baseUrl = (
+      process.env.OLLAMA_BASE_URL || "http://localhost:11434"
+    ).replace(/\/+$/, "");
+    const modelId = process.env.OLLAMA_MODEL_ID || probedModelId || "llava";
+    return {
+      apiUrl: `${baseUrl}/api/chat`,
+      modelId,
+      provider: "ollama",
+      enabled: true,
+    };
+  }
+
+  if (providerEnv === "custom") {
+    // OpenAI-compatible server (LM Studio, vLLM, llama.cpp, ...); key is optional
+    const apiUrl = process.env.CUSTOM_AI_API_URL;
+    const modelId = process.env.CUSTOM_AI_MODEL_ID || probedModelId;
+    return {
+      apiKey: process.env.CUSTOM_AI_API_KEY,
+      apiUrl,
+      modelId,
+      provider: "custom",
+      enabled: !!(apiUrl && modelId),
+    };
+  }
+
   let apiKey: string | undefined;
   let apiUrl: string | undefined;
   let modelId: string | undefined;
-  let provider: "openai" | "claude" | "anthropic" | "custom";
+  let provider: VisionAiProvider;
 
   // Determine provider based on env vars
   if (providerEnv === "claude" || providerEnv === "anthropic" || claudeKey) {
@@ -73,6 +119,25 @@ export function isVisionAiEnabled(): boolean {
   return getVisionAiConfig().enabled;
 }
 
+/**
+ * How EMR layouts are analyzed
+ * - "auto": vision AI when configured, otherwise local OCR
+ * - "vision": vision AI only
+ * - "ocr": local OCR only (screenshots never leave the machine)
+ */
+export type LayoutAnalyzerMode = "auto" | "vision" | "ocr";
+
+/**
+ * Get the layout analyzer mode from EMR_LAYOUT_ANALYZER (defaults to "auto")
+ */
+export function getLayoutAnalyzerMode(): LayoutAnalyzerMode {
+  const mode = (process.env.EMR_LAYOUT_ANALYZER || "").toLowerCase();
+  if (mode === "vision" || mode === "ocr") {
+    return mode;
+  }
+  return "auto";
+}
+
 /**
  * @deprecated Use isVisionAiEnabled instead
  */
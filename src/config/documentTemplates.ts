@@ -0,0 +1,59 @@
+/**
+ * Heidi document templates offered by the panel's document generator
+ * Templates are listed in document-templates.json (user data dir), since template ids
+ * belong to the clinic's Heidi account
+ */
+
+import { readUserDataJson } from "../services/userDataFile";
+import { DocumentTemplate } from "../types/agent";
+
+interface DocumentTemplatesFile {
+  version: 1;
+  templates: DocumentTemplate[];
+}
+
+const TEMPLATES_FILE_NAME = "document-templates.json";
+
+let templatesFile: DocumentTemplatesFile | null = null;
+
+/**
+ * Load templates from disk (once per process)
+ */
+function loadTemplates(): DocumentTemplatesFile {
+  if (templatesFile) {
+    return templatesFile;
+  }
+
+  const parsed = readUserDataJson(
+    TEMPLATES_FILE_NAME
+  ) as DocumentTemplatesFile | null;
+  if (parsed && parsed.version === 1 && Array.isArray(parsed.templates)) {
+    templatesFile = {
+      version: 1,
+      templates: parsed.templates.filter(
+        (template) => template && typeof template.id === "string" && template.id
+      ),
+    };
+    console.log(
+      `[PROFILES] Loaded ${templatesFile.templates.length} document template(s)`
+    );
+    return templatesFile;
+  }
+
+  if (parsed) {
+    console.warn("[PROFILES] Ignoring document templates with unknown format");
+  }
+
+  templatesFile = { version: 1, templates: [] };
+  return templatesFile;
+}
+
+/**
+ * Get the configured document templates (labels default to the template id)
+ */
+export function getDocumentTemplates(): DocumentTemplate[] {
+  return loadTemplates().templates.map((template) => ({
+    id: template.id,
+    label: template.label || template.id,
+  }));
+}
@@ -0,0 +1,117 @@
+/**
+ * Per-EMR value format and typing profiles
+ * Defaults can be overridden per EMR in emr-profiles.json (user data dir), keyed by EMR id
+ */
+
+import {
+  DEFAULT_TYPING_PROFILE,
+  TypingProfile,
+} from "../automation/textEntry";
+import { DateOrder } from "../services/emrHeidiProfileMapper";
+import { RichTextTarget } from "../services/richText";
+import { readUserDataJson, writeUserDataJson } from "../services/userDataFile";
+import { FocusMode } from "../types/fillPlan";
+
+export interface EmrFormatProfile {
+  dateFormat: string; // Output pattern using DD, MM, YYYY and YY, e.g. "DD/MM/YYYY"
+  sourceDateOrder: DateOrder; // How ambiguous session dates like 03/04/1980 are read
+  stripNumberUnits: boolean; // "72 kg" → "72" for number fields
+  phoneFormat?: string; // Digit groups using #, e.g. "#### ### ###"; unset leaves numbers as written
+  selectValues: Record<string, string>; // Session value → option text (case-insensitive), e.g. male → M
+  selectStrategy: "type_ahead" | "select_option"; // select_option needs the options from layout analysis
+  checkboxValues: { checked: string; unchecked: string };
+  verifyAfterFill: boolean; // Re-capture and OCR typed fields after a fill plan run
+  focusMode: FocusMode; // "click" falls back to "tab" when the layout has no usable boxes
+  typing: TypingProfile; // Paste vs keystroke, delays, chunking and newline handling
+  richText: RichTextTarget; // Clipboard flavor for markdown/HTML notes pasted into long-text fields
+  codeSeparator: string; // Between pasted codes: "tab" moves to the next field, anything else is typed
+}
+
+interface EmrProfilesFile {
+  version: 1;
+  profiles: Record<string, Partial<EmrFormatProfile>>;
+}
+
+const PROFILES_FILE_NAME = "emr-profiles.json";
+
+export const DEFAULT_EMR_FORMAT_PROFILE: EmrFormatProfile = {
+  dateFormat: "DD/MM/YYYY",
+  sourceDateOrder: "dmy",
+  stripNumberUnits: true,
+  selectValues: {
+    male: "M",
+    female: "F",
+  },
+  selectStrategy: "type_ahead",
+  checkboxValues: { checked: "Yes", unchecked: "No" },
+  verifyAfterFill: true,
+  focusMode: "click",
+  typing: DEFAULT_TYPING_PROFILE,
+  richText: "html",
+  codeSeparator: "tab",
+};
+
+let profilesFile: EmrProfilesFile | null = null;
+
+/**
+ * Load profile overrides from disk (once per process)
+ */
+function loadProfiles(): EmrProfilesFile {
+  if (profilesFile) {
+    return profilesFile;
+  }
+
+  const parsed = readUserDataJson(PROFILES_FILE_NAME) as EmrProfilesFile | null;
+  if (parsed && parsed.version === 1 && typeof parsed.profiles === "object") {
+    profilesFile = parsed;
+    console.log(
+      `[PROFILES] Loaded format profiles for ${
+        Object.keys(parsed.profiles).length
+      } EMR(s)`
+    );
+    return profilesFile;
+  }
+
+  if (parsed) {
+    console.warn("[PROFILES] Ignoring format profiles with unknown format");
+  }
+
+  profilesFile = { version: 1, profiles: {} };
+  return profilesFile;
+}
+
+/**
+ * Get the format profile for an EMR (defaults merged with its stored overrides)
+ */
+export function getEmrFormatProfile(emrId?: string): EmrFormatProfile {
+  const overrides = (emrId && loadProfiles().profiles[emrId]) || {};
+  return {
+    ...DEFAULT_EMR_FORMAT_PROFILE,
+    ...overrides,
+    selectValues: {
+      ...DEFAULT_EMR_FORMAT_PROFILE.selectValues,
+      ...overrides.selectValues,
+    },
+    checkboxValues: {
+      ...DEFAULT_EMR_FORMAT_PROFILE.checkboxValues,
+      ...overrides.checkboxValues,
+    },
+    typing: {
+      ...DEFAULT_EMR_FORMAT_PROFILE.typing,
+      ...overrides.typing,
+    },
+  };
+}
+
+/**
+ * Store format overrides for an EMR (merged into any existing overrides)
+ */
+export async function saveEmrFormatProfile(
+  emrId: string,
+  overrides: Partial<EmrFormatProfile>
+): Promise<void> {
+  const file = loadProfiles();
+  file.profiles[emrId] = { ...file.profiles[emrId], ...overrides };
+  await writeUserDataJson(PROFILES_FILE_NAME, file);
+  console.log(`[PROFILES] Saved format profile for ${emrId}`);
+}
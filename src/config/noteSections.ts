@@ -0,0 +1,133 @@
+/**
+ * Consult note heading → session field dictionary
+ * Defaults can be extended or overridden in note-sections.json (user data dir), keyed by field id
+ */
+
+import { readUserDataJson } from "../services/userDataFile";
+
+export interface NoteSection {
+  label: string; // Session field label, e.g. "Plan"
+  headings: string[]; // Headings that start this section (case and punctuation ignored)
+}
+
+export type NoteSectionDictionary = Record<string, NoteSection>;
+
+interface NoteSectionsFile {
+  version: 1;
+  sections: NoteSectionDictionary;
+}
+
+const SECTIONS_FILE_NAME = "note-sections.json";
+
+export const DEFAULT_NOTE_SECTIONS: NoteSectionDictionary = {
+  presenting_complaint: {
+    label: "Presenting complaint",
+    headings: [
+      "presenting complaint",
+      "chief complaint",
+      "reason for visit",
+      "reason for consultation",
+    ],
+  },
+  history: {
+    label: "History",
+    headings: [
+      "history",
+      "history of presenting complaint",
+      "history of present illness",
+      "hpi",
+      "subjective",
+    ],
+  },
+  past_medical_history: {
+    label: "Past medical history",
+    headings: ["past medical history", "past history", "pmh", "pmhx"],
+  },
+  social_history: {
+    label: "Social history",
+    headings: ["social history", "shx"],
+  },
+  family_history: {
+    label: "Family history",
+    headings: ["family history", "fhx"],
+  },
+  medications: {
+    label: "Medications",
+    headings: ["medications", "medication", "current medications", "meds"],
+  },
+  allergies: {
+    label: "Allergies",
+    headings: ["allergies", "allergy", "adverse reactions"],
+  },
+  examination: {
+    label: "Examination",
+    headings: [
+      "examination",
+      "exam",
+      "physical examination",
+      "on examination",
+      "o e",
+      "objective",
+    ],
+  },
+  investigations: {
+    label: "Investigations",
+    headings: ["investigations", "results", "tests"],
+  },
+  assessment: {
+    label: "Assessment",
+    headings: ["assessment", "impression", "diagnosis", "diagnoses"],
+  },
+  plan: {
+    label: "Plan",
+    headings: ["plan", "management", "management plan", "treatment plan"],
+  },
+  follow_up: {
+    label: "Follow-up",
+    // Not a bare "review": "Review of systems" isn't a follow-up
+    headings: [
+      "follow up",
+      "followup",
+      "review in",
+      "review date",
+      "next review",
+      "safety netting",
+    ],
+  },
+};
+
+let sectionsFile: NoteSectionsFile | null = null;
+
+/**
+ * Load dictionary overrides from disk (once per process)
+ */
+function loadSections(): NoteSectionsFile {
+  if (sectionsFile) {
+    return sectionsFile;
+  }
+
+  const parsed = readUserDataJson(SECTIONS_FILE_NAME) as NoteSectionsFile | null;
+  if (parsed && parsed.version === 1 && typeof parsed.sections === "object") {
+    sectionsFile = parsed;
+    console.log(
+      `[PROFILES] Loaded ${
+        Object.keys(parsed.sections).length
+      } consult note section override(s)`
+    );
+    return sectionsFile;
+  }
+
+  if (parsed) {
+    console.warn("[PROFILES] Ignoring note sections with unknown format");
+  }
+
+  sectionsFile = { version: 1, sections: {} };
+  return sectionsFile;
+}
+
+/**
+ * Get the heading dictionary (defaults plus stored overrides; an override replaces a whole entry)
+ */
+export function getNoteSectionDictionary(): NoteSectionDictionary {
+  return { ...DEFAULT_NOTE_SECTIONS, ...loadSections().sections };
+}
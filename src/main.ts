@@ -3,18 +3,32 @@ import "dotenv/config";
 import {
   app,
   BrowserWindow,
-  clipboard,
+  dialog,
   globalShortcut,
   ipcMain,
   screen,
 } from "electron";
+import * as fs from "fs";
 import * as path from "path";
 import { promisify } from "util";
-import { pressCommandV } from "./automation/keyboardFiller";
+import {
+  FocusedFieldContent,
+  readFocusedField,
+  replaceFocusedFieldContent,
+} from "./automation/fieldContent";
+import { clickAt, pressKey } from "./automation/keyboardFiller";
+import { enterText, TypingProfile, usesPaste } from "./automation/textEntry";
+import { getVisionAiConfig } from "./config/aiConfig";
+import {
+  getEmrFormatProfile,
+  saveEmrFormatProfile,
+} from "./config/emrProfiles";
+import { getDocumentTemplates } from "./config/documentTemplates";
 import { validateHeidiConfig } from "./config/heidiConfig";
 import { buildHeidiPatientProfileFromEmrSnapshot } from "./services/emrHeidiProfileMapper";
 import {
   askHeidi,
+  askHeidiStream,
   createDocument,
   createPatientProfile,
   createSession,
@@ -28,12 +42,41 @@ import {
   getSessionTranscription,
   updatePatientProfile,
 } from "./services/heidiApiClient";
+import { enterCodes } from "./services/codeEntry";
+import { generateDocument } from "./services/documentGenerator";
+import { getEmrId } from "./services/emrFingerprint";
+import { analyzeEmrLayout } from "./services/emrLayoutAnalyzer";
+import {
+  buildFillPlan,
+  recordFillPlanCorrections,
+} from "./services/fillPlanBuilder";
+import {
+  buildSnapshotFromSessionFields,
+  executeFillPlan,
+} from "./services/fillPlanExecutor";
+import { verifyFillResult } from "./services/fillVerifier";
+import { importHeidiSession } from "./services/heidiSessionImporter";
+import {
+  exportLayoutBundle,
+  importLayoutBundle,
+} from "./services/layoutLibrary";
+import { isRichFormat, renderRichText } from "./services/richText";
 import { captureFullScreen } from "./services/screenshot";
+import { visionLlmClient } from "./services/visionLlmClient";
 import {
   extractSessionFieldsFromImage,
   mergeSessionFields,
 } from "./services/sessionFieldExtractor";
-import { AgentState, LinkedWindow, SessionField } from "./types/agent";
+import {
+  AgentState,
+  AskHeidiTurn,
+  DocumentGenerationRequest,
+  GeneratedDocument,
+  LinkedWindow,
+  SessionCode,
+  SessionField,
+} from "./types/agent";
+import { FillPlan, FillPlanStepResult, FocusMode } from "./types/fillPlan";
 
 let mainWindow: BrowserWindow | null = null;
 let floatingIconWindow: BrowserWindow | null = null;
@@ -53,6 +96,14 @@ let agentState: AgentState = {
   currentIndex: 0,
 };
 
+// Fill history for ⌥Z undo (most recent last)
+const MAX_FILL_HISTORY = 20;
+let fillHistory: FillHistoryEntry[] = [];
+
+// ⌥V pastes that didn't land, per EMR (reset when one does)
+const PASTE_FAILURES_BEFORE_KEYSTROKE = 3;
+const pasteFailures = new Map<string, number>();
+
 // Linked EMR window state
 let linkedEmrWindow: LinkedWindow | null = null;
 let windowWatcherInterval: NodeJS.Timeout | null = null;
@@ -67,6 +118,19 @@ interface OriginalBounds {
   appName: string;
 }
 
+// One undoable fill action: a single ⌥V paste or a whole fill plan run
+type FillHistoryEntry =
+  | {
+      kind: "paste";
+      fieldIndex?: number; // Session field that was pasted (unset for codes)
+      priorContent: string; // EMR field text before the paste
+    }
+  | {
+      kind: "fill_plan";
+      focusMode: FocusMode; // How the run moved between fields
+      steps: FillPlanStepResult[];
+    };
+
 const execAsync = promisify(exec);
 
 /**
@@ -157,7 +221,66 @@ function selectNextField(): void {
 }
 
 /**
- * Type current session field value into active field
+ * Read the field back after a ⌥V paste; if the paste didn't land (some Java EMRs
+ * ignore ⌘V), type the value at the caret with keystrokes instead
+ * Only trusted when copying is known to work in this EMR: one that ignores ⌘C reads
+ * back nothing whether or not the paste landed
+ * After repeated failures the EMR's profile is switched to keystroke typing
+ */
+async function retypeIfPasteFailed(
+  value: string,
+  prior: FocusedFieldContent,
+  emrId: string,
+  typing: TypingProfile
+): Promise<void> {
+  // Words only: rich-text editors copy bullets, numbering and spacing their own way
+  const normalize = (text: string) =>
+    text.replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+  const expected = normalize(value);
+  if (!expected) {
+    return;
+  }
+
+  const content = await readFocusedField();
+  const text = content.before + content.after;
+  if (normalize(text).includes(expected)) {
+    pasteFailures.delete(emrId);
+    return;
+  }
+
+  if (!prior.copied && !content.copied) {
+    console.log(
+      `[MAIN] Can't read the field back in ${emrId}; not checking the paste`
+    );
+    return;
+  }
+
+  const failures = (pasteFailures.get(emrId) || 0) + 1;
+  pasteFailures.set(emrId, failures);
+  console.warn(
+    `[MAIN] Paste didn't reach the EMR field; re-typing with keystrokes (${failures}/${PASTE_FAILURES_BEFORE_KEYSTROKE} for ${emrId})`
+  );
+
+  const keystroke: TypingProfile = { ...typing, strategy: "keystroke" };
+  if (text === prior.before + prior.after) {
+    // The field is as it was and the caret hasn't moved
+    await enterText(value, keystroke);
+  } else {
+    await replaceFocusedFieldContent(
+      prior.before + value + prior.after,
+      keystroke
+    );
+  }
+
+  if (failures >= PASTE_FAILURES_BEFORE_KEYSTROKE) {
+    console.warn(`[MAIN] Switching ${emrId} to keystroke typing`);
+    pasteFailures.delete(emrId);
+    await saveEmrFormatProfile(emrId, { typing: keystroke });
+  }
+}
+
+/**
+ * Enter the current session field value into the active EMR field
  */
 async function pasteCurrentField(): Promise<void> {
   try {
@@ -189,39 +312,28 @@ async function pasteCurrentField(): Promise<void> {
 
     updateAgentState({ status: "typing", lastError: undefined });
 
-    // Save current clipboard text to restore later
-    const previousText = clipboard.readText();
-
-    try {
-      // Write value to clipboard as plain text
-      clipboard.writeText(field.value ?? "");
-
-      // Delay to ensure clipboard is fully set before proceeding
-      await new Promise((resolve) => setTimeout(resolve, 200));
+    // The target field's type is unknown here, so the value is pasted as written
+    // (the session label says nothing about the EMR field: "Sex" may be a text box)
+    // Markdown/HTML notes are pasted with the EMR's rich flavor instead
+    const emrId = getEmrId(linkedEmrWindow || undefined);
+    const profile = getEmrFormatProfile(emrId);
+    const { text: value, ...flavors } = isRichFormat(field.format)
+      ? renderRichText(field.value, field.format, profile.richText)
+      : { text: field.value };
 
-      // Delay to ensure target field is focused and ready
-      await new Promise((resolve) => setTimeout(resolve, 400));
+    // Remember what the EMR field held so ⌥Z can put it back
+    const prior = await readFocusedField();
+    const priorContent = prior.before + prior.after;
 
-      // Trigger Command+V to paste from clipboard (reliable and preserves encoding)
-      await pressCommandV();
+    // Paste (clipboard + ⌘V/Ctrl+V) unless the EMR's typing profile asks for keystrokes
+    await enterText(value, profile.typing, true, flavors);
 
-      // Wait longer after paste to ensure paste operation completes before restoring clipboard
-      // This is critical - if we restore too quickly, the paste might not complete
-      await new Promise((resolve) => setTimeout(resolve, 500));
-    } finally {
-      // Restore previous clipboard text after paste has completed
-      try {
-        // Delay before restoring to ensure paste is fully processed
-        await new Promise((resolve) => setTimeout(resolve, 200));
-        clipboard.writeText(previousText);
-      } catch (restoreError) {
-        console.warn(
-          "[MAIN] Failed to restore previous clipboard text:",
-          restoreError
-        );
-      }
+    if (usesPaste(profile.typing, true) && profile.typing.autoFallback) {
+      await retypeIfPasteFailed(value, prior, emrId, profile.typing);
     }
 
+    pushFillHistory({ kind: "paste", fieldIndex: currentIndex, priorContent });
+
     // Move to next field after successful paste
     const nextIndex = clampIndex(currentIndex + 1, fields.length);
 
@@ -232,13 +344,13 @@ async function pasteCurrentField(): Promise<void> {
 
     if (nextIndex > currentIndex) {
       console.log(
-        `[MAIN] Typing (via paste) completed successfully. Moved to next field: ${
+        `[MAIN] Field entered successfully. Moved to next field: ${
           nextIndex + 1
         }/${fields.length}`
       );
     } else {
       console.log(
-        "[MAIN] Typing (via paste) completed successfully. No more fields."
+        "[MAIN] Field entered successfully. No more fields."
       );
     }
   } catch (error) {
@@ -317,17 +429,560 @@ async function handleCaptureAndEnrich(): Promise<{
   }
 }
 
+/**
+ * Handle build fill plan (⌥F: capture linked EMR and build a fill plan for review)
+ * The plan is stored in agent state so the panel can show it before anything is typed
+ */
+async function handleBuildFillPlan(): Promise<{
+  success: boolean;
+  plan?: FillPlan;
+  error?: string;
+}> {
+  console.log("[MAIN] handleBuildFillPlan called (⌥F: build fill plan)");
+
+  try {
+    const fields = getSessionFieldsOrThrow();
+
+    if (!linkedEmrWindow) {
+      throw new Error(
+        "No EMR window linked. Please link an EMR window before filling a form."
+      );
+    }
+
+    updateAgentState({ status: "capturing", lastError: undefined });
+
+    // Open the panel (for reviewing the plan) before capturing: it pushes the EMR
+    // window aside, and clicked field positions must match the window when the plan runs
+    if (!isPanelVisible) {
+      await togglePanel();
+    }
+
+    // Bring the linked EMR to the front so the capture targets it
+    await activateApplicationWindow(
+      linkedEmrWindow.appName,
+      linkedEmrWindow.windowTitle
+    );
+    await new Promise((resolve) => setTimeout(resolve, 300));
+
+    const imageBuffer = await captureFullScreen();
+    console.log("[MAIN] Captured linked EMR window for fill plan");
+
+    const layout = await analyzeEmrLayout(imageBuffer, linkedEmrWindow);
+    const plan = await buildFillPlan(
+      layout,
+      buildSnapshotFromSessionFields(fields)
+    );
+
+    updateAgentState({ status: "idle", fillPlan: plan, fillReport: undefined });
+
+    return { success: true, plan };
+  } catch (error) {
+    console.error("[MAIN] Error in handleBuildFillPlan:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    updateAgentState({ status: "error", lastError: errorMessage });
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Handle execute fill plan (type a reviewed plan into the linked EMR)
+ * Tab-mode plans assume the first field of the EMR form still has focus inside the linked window
+ */
+async function handleExecuteFillPlan(plan?: FillPlan): Promise<{
+  success: boolean;
+  filledCount?: number;
+  skippedCount?: number;
+  error?: string;
+}> {
+  console.log("[MAIN] handleExecuteFillPlan called");
+
+  try {
+    const fields = getSessionFieldsOrThrow();
+
+    if (!plan || !Array.isArray(plan.steps)) {
+      throw new Error("No fill plan to execute. Press ⌥F to build one first.");
+    }
+
+    if (!linkedEmrWindow) {
+      throw new Error(
+        "No EMR window linked. Please link an EMR window before filling a form."
+      );
+    }
+
+    // Remember re-mappings made in the panel so the next plan gets them right
+    if (agentState.fillPlan && agentState.fillPlan.createdAt === plan.createdAt) {
+      await recordFillPlanCorrections(agentState.fillPlan, plan);
+    }
+
+    // The panel takes focus when the plan is confirmed, so hand it back to the EMR
+    await activateApplicationWindow(
+      linkedEmrWindow.appName,
+      linkedEmrWindow.windowTitle
+    );
+    await new Promise((resolve) => setTimeout(resolve, 300));
+
+    updateAgentState({ status: "typing", lastError: undefined });
+
+    let result = await executeFillPlan(plan, fields);
+    pushFillHistory({
+      kind: "fill_plan",
+      focusMode: result.focusMode || "tab",
+      steps: result.steps,
+    });
+
+    // Read the typed fields back so misplaced or altered values are flagged
+    if (getEmrFormatProfile(plan.emrId).verifyAfterFill) {
+      updateAgentState({ status: "capturing" });
+      await new Promise((resolve) => setTimeout(resolve, 300));
+      result = await verifyFillResult(plan, result);
+    }
+
+    updateAgentState({
+      status: "idle",
+      fillPlan: undefined,
+      fillReport: result,
+    });
+
+    return { success: true, ...result };
+  } catch (error) {
+    console.error("[MAIN] Error in handleExecuteFillPlan:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    updateAgentState({ status: "error", lastError: errorMessage });
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Type codes picked in the panel into the linked EMR (⌥Z undoes them like a paste or fill plan)
+ * The separator defaults to the EMR profile's `codeSeparator`
+ */
+async function handlePasteCodes(request?: {
+  codes?: SessionCode[];
+  includeDescription?: boolean;
+  separator?: string;
+}): Promise<{ success: boolean; codeCount?: number; error?: string }> {
+  try {
+    const codes = (request?.codes || []).filter(
+      (code) => code && typeof code.code === "string" && code.code.trim()
+    );
+    if (codes.length === 0) {
+      throw new Error("No codes selected");
+    }
+
+    if (!linkedEmrWindow) {
+      throw new Error(
+        "No EMR window linked. Please link an EMR window before pasting codes."
+      );
+    }
+
+    // The panel takes focus when the codes are picked, so hand it back to the EMR
+    await activateApplicationWindow(
+      linkedEmrWindow.appName,
+      linkedEmrWindow.windowTitle
+    );
+    await new Promise((resolve) => setTimeout(resolve, 300));
+
+    updateAgentState({ status: "typing", lastError: undefined });
+
+    const profile = getEmrFormatProfile(getEmrId(linkedEmrWindow));
+    const separator = request?.separator ?? profile.codeSeparator;
+    const steps = await enterCodes(
+      codes,
+      { includeDescription: !!request?.includeDescription, separator },
+      profile.typing
+    );
+
+    pushFillHistory(
+      separator === "tab"
+        ? { kind: "fill_plan", focusMode: "tab", steps }
+        : { kind: "paste", priorContent: steps[0].priorContent || "" }
+    );
+    updateAgentState({ status: "idle" });
+
+    return { success: true, codeCount: codes.length };
+  } catch (error) {
+    console.error("[MAIN] Error pasting codes:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    updateAgentState({ status: "error", lastError: errorMessage });
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Discard the fill plan awaiting review
+ */
+function discardFillPlan(): void {
+  console.log("[MAIN] Discarding fill plan");
+  updateAgentState({ fillPlan: undefined });
+}
+
+/**
+ * Dismiss the report of the last fill plan run
+ */
+function dismissFillReport(): void {
+  updateAgentState({ fillReport: undefined });
+}
+
+/**
+ * Handle export layout bundle (layouts + confirmed mappings for the linked EMR)
+ */
+async function handleExportLayoutBundle(): Promise<{
+  success: boolean;
+  filePath?: string;
+  layoutCount?: number;
+  mappingCount?: number;
+  error?: string;
+}> {
+  console.log("[MAIN] handleExportLayoutBundle called");
+
+  try {
+    if (!linkedEmrWindow) {
+      throw new Error(
+        "No EMR window linked. Link the EMR whose layouts you want to export."
+      );
+    }
+
+    const bundle = exportLayoutBundle(getEmrId(linkedEmrWindow));
+    if (bundle.layouts.length === 0) {
+      throw new Error(
+        `No analyzed layouts for ${linkedEmrWindow.appName} yet. Press ⌥F on a form first.`
+      );
+    }
+
+    const { canceled, filePath } = await dialog.showSaveDialog({
+      title: "Export EMR layouts",
+      defaultPath: `${bundle.emrId}-layouts.json`,
+      filters: [{ name: "Layout bundle", extensions: ["json"] }],
+    });
+    if (canceled || !filePath) {
+      return { success: false };
+    }
+
+    await fs.promises.writeFile(
+      filePath,
+      JSON.stringify(bundle, null, 2),
+      "utf-8"
+    );
+
+    const mappingCount = Object.values(bundle.mappings).reduce(
+      (sum, fields) => sum + Object.keys(fields).length,
+      0
+    );
+    console.log(`[MAIN] Exported layout bundle to ${filePath}`);
+
+    return {
+      success: true,
+      filePath,
+      layoutCount: bundle.layouts.length,
+      mappingCount,
+    };
+  } catch (error) {
+    console.error("[MAIN] Error in handleExportLayoutBundle:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+/**
+ * Handle import layout bundle (exported from another workstation)
+ */
+async function handleImportLayoutBundle(): Promise<{
+  success: boolean;
+  emrId?: string;
+  layoutCount?: number;
+  mappingCount?: number;
+  error?: string;
+}> {
+  console.log("[MAIN] handleImportLayoutBundle called");
+
+  try {
+    const { canceled, filePaths } = await dialog.showOpenDialog({
+      title: "Import EMR layouts",
+      properties: ["openFile"],
+      filters: [{ name: "Layout bundle", extensions: ["json"] }],
+    });
+    if (canceled || filePaths.length === 0) {
+      return { success: false };
+    }
+
+    const raw = await fs.promises.readFile(filePaths[0], "utf-8");
+    let bundle: unknown;
+    try {
+      bundle = JSON.parse(raw);
+    } catch {
+      throw new Error("Layout bundle is not valid JSON.");
+    }
+
+    const result = await importLayoutBundle(bundle);
+    return { success: true, ...result };
+  } catch (error) {
+    console.error("[MAIN] Error in handleImportLayoutBundle:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+/**
+ * Record a fill action so it can be undone
+ */
+function pushFillHistory(entry: FillHistoryEntry): void {
+  fillHistory.push(entry);
+  if (fillHistory.length > MAX_FILL_HISTORY) {
+    fillHistory.shift();
+  }
+  updateAgentState({ undoDepth: fillHistory.length });
+}
+
+/**
+ * Undo the last fill action (⌥Z)
+ * A paste is reverted in the still-focused field and the selection moves back to it.
+ * A fill plan run is walked backwards with Shift+Tab from the field after its last step,
+ * restoring typed fields and unticking ticked checkboxes (dropdown choices are left as-is)
+ */
+async function undoLastFillAction(): Promise<{
+  success: boolean;
+  restoredCount?: number;
+  error?: string;
+}> {
+  console.log("[MAIN] undoLastFillAction called (⌥Z: undo last fill)");
+
+  // Only dropped once restored, so a failed undo can be retried
+  const entry = fillHistory[fillHistory.length - 1];
+  if (!entry) {
+    const error = "Nothing to undo";
+    updateAgentState({ lastError: error });
+    return { success: false, error };
+  }
+
+  try {
+    updateAgentState({ status: "typing", lastError: undefined });
+
+    let restoredCount = 0;
+    const typing = getEmrFormatProfile(
+      getEmrId(linkedEmrWindow || undefined)
+    ).typing;
+
+    if (entry.kind === "paste") {
+      await replaceFocusedFieldContent(entry.priorContent, typing);
+      restoredCount = 1;
+      if (entry.fieldIndex !== undefined) {
+        updateAgentState({
+          currentIndex: clampIndex(
+            entry.fieldIndex,
+            agentState.sessionFields.length
+          ),
+        });
+      }
+    } else {
+      if (linkedEmrWindow) {
+        await activateApplicationWindow(
+          linkedEmrWindow.appName,
+          linkedEmrWindow.windowTitle
+        );
+        await new Promise((resolve) => setTimeout(resolve, 300));
+      }
+
+      for (let i = entry.steps.length - 1; i >= 0; i--) {
+        const step = entry.steps[i];
+        if (entry.focusMode === "tab") {
+          await pressKey("tab", ["shift"]);
+          await new Promise((resolve) => setTimeout(resolve, 100));
+        } else if (step.clickPoint && step.strategy !== "toggle_checkbox") {
+          // Checkboxes are clicked below, which unticks them
+          await clickAt(step.clickPoint);
+        }
+
+        if (step.strategy === "type" && step.priorContent !== undefined) {
+          await replaceFocusedFieldContent(step.priorContent, typing);
+          restoredCount++;
+        } else if (
+          step.strategy === "toggle_checkbox" &&
+          step.value === "checked"
+        ) {
+          if (step.clickPoint) {
+            await clickAt(step.clickPoint);
+          } else {
+            await pressKey("space");
+          }
+          restoredCount++;
+        } else if (
+          step.strategy === "type_ahead" ||
+          step.strategy === "select_option"
+        ) {
+          console.warn(
+            `[MAIN] Cannot undo dropdown choice "${step.value}" for ${step.emrFieldId}`
+          );
+        }
+      }
+    }
+
+    const index = fillHistory.lastIndexOf(entry);
+    if (index >= 0) {
+      fillHistory.splice(index, 1);
+    }
+    updateAgentState({ status: "idle", undoDepth: fillHistory.length });
+    console.log(
+      `[MAIN] Undid ${entry.kind === "paste" ? "paste" : "fill plan"}: ${restoredCount} field(s) restored`
+    );
+    return { success: true, restoredCount };
+  } catch (error) {
+    console.error("[MAIN] Error undoing last fill action:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    updateAgentState({ status: "error", lastError: errorMessage });
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Import a Heidi session's fields straight from the API (no screenshot or OCR)
+ * Imported values replace existing fields with the same id instead of being merged
+ */
+async function importHeidiSessionFields(
+  sessionId: string
+): Promise<{ success: boolean; fieldCount?: number; error?: string }> {
+  try {
+    updateAgentState({ status: "capturing", lastError: undefined });
+    const { fields, codes } = await importHeidiSession(sessionId);
+
+    if (fields.length === 0) {
+      const error = `Heidi session ${sessionId} has no fields to import`;
+      updateAgentState({ status: "idle", lastError: error });
+      return { success: false, error };
+    }
+
+    const importedIds = new Set(fields.map((field) => field.id));
+    updateAgentState({
+      sessionFields: agentState.sessionFields.filter(
+        (field) => !importedIds.has(field.id)
+      ),
+      heidiSessionId: sessionId,
+      sessionCodes: codes,
+    });
+    addSessionFields(fields);
+    updateAgentState({ status: "idle" });
+
+    return { success: true, fieldCount: fields.length };
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to import Heidi session";
+    console.error("[MAIN] Error importing Heidi session:", errorMessage);
+    updateAgentState({ status: "error", lastError: errorMessage });
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Update one turn of the Ask Heidi conversation
+ */
+function updateAskHeidiTurn(id: string, partial: Partial<AskHeidiTurn>): void {
+  updateAgentState({
+    askHeidi: (agentState.askHeidi || []).map((turn) =>
+      turn.id === id ? { ...turn, ...partial } : turn
+    ),
+  });
+}
+
+/**
+ * Ask Heidi about the imported session; the answer streams into the conversation in state
+ */
+async function handleAskHeidi(
+  question: string
+): Promise<{ success: boolean; answer?: string; error?: string }> {
+  const sessionId = agentState.heidiSessionId;
+  if (!sessionId) {
+    return {
+      success: false,
+      error: "Import a Heidi session before asking Heidi about it",
+    };
+  }
+
+  const turn: AskHeidiTurn = {
+    id: `ask_${Date.now()}`,
+    question,
+    answer: "",
+    status: "streaming",
+  };
+  updateAgentState({ askHeidi: [...(agentState.askHeidi || []), turn] });
+  console.log(`[MAIN] Asking Heidi about session ${sessionId}`);
+
+  try {
+    let answer = "";
+    const result = await askHeidiStream(
+      { session_id: sessionId, question },
+      (text) => {
+        answer += text;
+        updateAskHeidiTurn(turn.id, { answer });
+      }
+    );
+
+    if (!result.ok) {
+      throw new Error(result.error || "Ask Heidi failed");
+    }
+
+    const finalAnswer = result.data?.answer ?? answer;
+    updateAskHeidiTurn(turn.id, { answer: finalAnswer, status: "done" });
+    return { success: true, answer: finalAnswer };
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Ask Heidi failed";
+    console.error("[MAIN] Error asking Heidi:", errorMessage);
+    updateAskHeidiTurn(turn.id, { status: "error", error: errorMessage });
+    return { success: false, error: errorMessage };
+  }
+}
+
+/**
+ * Generate a document from a template for the imported Heidi session
+ * The document comes back for preview; its fields are only added once the user picks them
+ */
+async function handleGenerateDocument(
+  request: DocumentGenerationRequest
+): Promise<{ success: boolean; document?: GeneratedDocument; error?: string }> {
+  const sessionId = agentState.heidiSessionId;
+  if (!sessionId) {
+    return {
+      success: false,
+      error: "Import a Heidi session before generating a document",
+    };
+  }
+
+  try {
+    const document = await generateDocument(sessionId, request);
+    return { success: true, document };
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Document generation failed";
+    console.error("[MAIN] Error generating document:", errorMessage);
+    return { success: false, error: errorMessage };
+  }
+}
+
 /**
  * Clear current session (reset for new direction)
  */
 function clearSession(): void {
   console.log("[MAIN] clearSession called (⌥X: clear session)");
+  fillHistory = [];
   updateAgentState({
     status: "idle",
     sessionId: undefined,
+    heidiSessionId: undefined,
     sessionFields: [],
+    sessionCodes: undefined,
+    askHeidi: undefined,
     currentIndex: 0,
     lastError: undefined,
+    fillPlan: undefined,
+    fillReport: undefined,
+    undoDepth: 0,
   });
   console.log("[MAIN] Session cleared");
 }
@@ -2028,6 +2683,23 @@ app.whenReady().then(async () => {
   // Validate Heidi API configuration
   validateHeidiConfig();
 
+  // Probe the vision AI provider in the background (picks a local model if none is set)
+  if (getVisionAiConfig().apiUrl) {
+    visionLlmClient.probe().then((status) => {
+      if (status.reachable && !status.error) {
+        console.log(
+          `[AI] Provider ${status.provider} ready (model: ${status.modelId}${
+            status.supportsImages === false ? ", no image support" : ""
+          })`
+        );
+      } else {
+        console.warn(
+          `[AI] Provider ${status.provider} check failed: ${status.error}`
+        );
+      }
+    });
+  }
+
   // Register IPC handlers FIRST before creating windows
   // (windows may try to call IPC handlers immediately on load)
   ipcMain.handle("agent:captureAndEnrich", handleCaptureAndEnrich);
@@ -2043,6 +2715,24 @@ app.whenReady().then(async () => {
     await pasteCurrentField();
     return { success: true };
   });
+  ipcMain.handle("agent:buildFillPlan", handleBuildFillPlan);
+  ipcMain.handle("agent:executeFillPlan", async (_, plan?: FillPlan) => {
+    return handleExecuteFillPlan(plan ?? agentState.fillPlan);
+  });
+  ipcMain.handle("agent:pasteCodes", async (_, request) => {
+    return handlePasteCodes(request);
+  });
+  ipcMain.handle("agent:undoLastFill", undoLastFillAction);
+  ipcMain.handle("agent:dismissFillReport", () => {
+    dismissFillReport();
+    return { success: true };
+  });
+  ipcMain.handle("agent:discardFillPlan", () => {
+    discardFillPlan();
+    return { success: true };
+  });
+  ipcMain.handle("agent:exportLayoutBundle", handleExportLayoutBundle);
+  ipcMain.handle("agent:importLayoutBundle", handleImportLayoutBundle);
   ipcMain.handle("agent:clearSession", () => {
     clearSession();
     return { success: true };
@@ -2067,6 +2757,43 @@ app.whenReady().then(async () => {
     }
   );
 
+  ipcMain.handle("agent:askHeidi", async (_, question: string) => {
+    if (!question || typeof question !== "string" || !question.trim()) {
+      return { success: false, error: "Enter a question for Heidi" };
+    }
+    return handleAskHeidi(question.trim());
+  });
+
+  ipcMain.handle("agent:getDocumentTemplates", async () => {
+    return { templates: getDocumentTemplates() };
+  });
+
+  ipcMain.handle(
+    "agent:generateDocument",
+    async (_, request: DocumentGenerationRequest) => {
+      if (!request || typeof request.templateId !== "string") {
+        return { success: false, error: "Invalid document request" };
+      }
+      if (!request.templateId.trim()) {
+        return { success: false, error: "Choose a document template" };
+      }
+      return handleGenerateDocument({
+        ...request,
+        templateId: request.templateId.trim(),
+      });
+    }
+  );
+
+  ipcMain.handle(
+    "agent:importHeidiSession",
+    async (_, sessionId: string) => {
+      if (!sessionId || typeof sessionId !== "string") {
+        return { success: false, error: "Invalid session ID" };
+      }
+      return importHeidiSessionFields(sessionId.trim());
+    }
+  );
+
   // ============================================================================
   // Heidi API IPC handlers
   // Documentation: https://www.heidihealth.com/developers/heidi-api/
@@ -2594,6 +3321,8 @@ app.whenReady().then(async () => {
   // - ⌥W: Move selection up (previous key in session)
   // - ⌥S: Move selection down (next key)
   // - ⌥V: Type current key's value into active field
+  // - ⌥F: Build a fill plan for the whole linked EMR form (reviewed in the panel)
+  // - ⌥Z: Undo the last paste or fill plan run
   // - ⌥X: Clear current session (reset for new direction)
 
   // Alt+C: Capture screen and enrich session
@@ -2616,6 +3345,16 @@ app.whenReady().then(async () => {
     await pasteCurrentField();
   });
 
+  // Alt+F: Build a fill plan for the whole form and open it for review
+  globalShortcut.register("Alt+F", async () => {
+    await handleBuildFillPlan();
+  });
+
+  // Alt+Z: Undo last fill action
+  globalShortcut.register("Alt+Z", async () => {
+    await undoLastFillAction();
+  });
+
   // Alt+X: Clear session
   globalShortcut.register("Alt+X", () => {
     clearSession();
@@ -1,5 +1,13 @@
 import { contextBridge, ipcRenderer } from "electron";
-import { AgentState, LinkedWindow } from "./types/agent";
+import {
+  AgentState,
+  DocumentGenerationRequest,
+  DocumentTemplate,
+  GeneratedDocument,
+  LinkedWindow,
+  SessionCode,
+} from "./types/agent";
+import { FillPlan, FillPlanStepResult } from "./types/fillPlan";
 
 export interface ElectronAPI {
   agent: {
@@ -10,6 +18,45 @@ export interface ElectronAPI {
     selectPreviousField: () => Promise<{ success: boolean }>;
     selectNextField: () => Promise<{ success: boolean }>;
     pasteCurrentField: () => Promise<{ success: boolean }>;
+    buildFillPlan: () => Promise<{
+      success: boolean;
+      plan?: FillPlan;
+      error?: string;
+    }>;
+    executeFillPlan: (plan: FillPlan) => Promise<{
+      success: boolean;
+      filledCount?: number;
+      skippedCount?: number;
+      steps?: FillPlanStepResult[];
+      mismatchCount?: number;
+      error?: string;
+    }>;
+    discardFillPlan: () => Promise<{ success: boolean }>;
+    pasteCodes: (request: {
+      codes: SessionCode[];
+      includeDescription?: boolean;
+      separator?: string; // "tab" or typed text; unset uses the EMR profile
+    }) => Promise<{ success: boolean; codeCount?: number; error?: string }>;
+    undoLastFill: () => Promise<{
+      success: boolean;
+      restoredCount?: number;
+      error?: string;
+    }>;
+    dismissFillReport: () => Promise<{ success: boolean }>;
+    exportLayoutBundle: () => Promise<{
+      success: boolean;
+      filePath?: string;
+      layoutCount?: number;
+      mappingCount?: number;
+      error?: string;
+    }>;
+    importLayoutBundle: () => Promise<{
+      success: boolean;
+      emrId?: string;
+      layoutCount?: number;
+      mappingCount?: number;
+      error?: string;
+    }>;
     clearSession: () => Promise<{ success: boolean }>;
     getState: () => Promise<{ state: AgentState }>;
     onStateUpdated: (callback: (update: { state: AgentState }) => void) => void;
@@ -19,6 +66,20 @@ export interface ElectronAPI {
     addSessionFields: (
       fields: any[]
     ) => Promise<{ success: boolean; error?: string }>;
+    importHeidiSession: (sessionId: string) => Promise<{
+      success: boolean;
+      fieldCount?: number;
+      error?: string;
+    }>;
+    askHeidi: (
+      question: string
+    ) => Promise<{ success: boolean; answer?: string; error?: string }>;
+    getDocumentTemplates: () => Promise<{ templates: DocumentTemplate[] }>;
+    generateDocument: (request: DocumentGenerationRequest) => Promise<{
+      success: boolean;
+      document?: GeneratedDocument;
+      error?: string;
+    }>;
   };
   ui: {
     iconClicked: () => Promise<void>;
@@ -89,6 +150,15 @@ const electronAPI: ElectronAPI = {
     selectPreviousField: () => ipcRenderer.invoke("agent:selectPreviousField"),
     selectNextField: () => ipcRenderer.invoke("agent:selectNextField"),
     pasteCurrentField: () => ipcRenderer.invoke("agent:pasteCurrentField"),
+    buildFillPlan: () => ipcRenderer.invoke("agent:buildFillPlan"),
+    executeFillPlan: (plan: FillPlan) =>
+      ipcRenderer.invoke("agent:executeFillPlan", plan),
+    discardFillPlan: () => ipcRenderer.invoke("agent:discardFillPlan"),
+    pasteCodes: (request) => ipcRenderer.invoke("agent:pasteCodes", request),
+    undoLastFill: () => ipcRenderer.invoke("agent:undoLastFill"),
+    dismissFillReport: () => ipcRenderer.invoke("agent:dismissFillReport"),
+    exportLayoutBundle: () => ipcRenderer.invoke("agent:exportLayoutBundle"),
+    importLayoutBundle: () => ipcRenderer.invoke("agent:importLayoutBundle"),
     clearSession: () => ipcRenderer.invoke("agent:clearSession"),
     getState: () => ipcRenderer.invoke("agent:getState"),
     onStateUpdated: (callback) => {
@@ -100,6 +170,14 @@ const electronAPI: ElectronAPI = {
     getLinkedEmrWindow: () => ipcRenderer.invoke("agent:getLinkedEmrWindow"),
     addSessionFields: (fields: any[]) =>
       ipcRenderer.invoke("agent:addSessionFields", fields),
+    importHeidiSession: (sessionId: string) =>
+      ipcRenderer.invoke("agent:importHeidiSession", sessionId),
+    askHeidi: (question: string) =>
+      ipcRenderer.invoke("agent:askHeidi", question),
+    getDocumentTemplates: () =>
+      ipcRenderer.invoke("agent:getDocumentTemplates"),
+    generateDocument: (request: DocumentGenerationRequest) =>
+      ipcRenderer.invoke("agent:generateDocument", request),
   },
   ui: {
     iconClicked: () => ipcRenderer.invoke("ui:iconClicked"),
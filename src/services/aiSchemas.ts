@@ -0,0 +1,157 @@
+/**
+ * Minimal JSON Schema subset used to validate AI output
+ * The same objects are sent to providers that support native structured output
+ */
+export interface JsonSchema {
+  type: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: Array<string | number>;
+  minimum?: number;
+  maximum?: number;
+}
+
+/**
+ * Validate a value against a schema
+ * Returns a list of human-readable errors (empty when valid); extra properties are allowed
+ */
+export function validateAgainstSchema(
+  value: unknown,
+  schema: JsonSchema,
+  path: string = "$"
+): string[] {
+  const errors: string[] = [];
+
+  switch (schema.type) {
+    case "object": {
+      if (!value || typeof value !== "object" || Array.isArray(value)) {
+        return [`${path} must be an object`];
+      }
+      const record = value as Record<string, unknown>;
+      for (const key of schema.required || []) {
+        if (record[key] === undefined || record[key] === null) {
+          errors.push(`${path}.${key} is required`);
+        }
+      }
+      for (const [key, propertySchema] of Object.entries(
+        schema.properties || {}
+      )) {
+        if (record[key] !== undefined && record[key] !== null) {
+          errors.push(
+            ...validateAgainstSchema(record[key], propertySchema, `${path}.${key}`)
+          );
+        }
+      }
+      break;
+    }
+    case "array": {
+      if (!Array.isArray(value)) {
+        return [`${path} must be an array`];
+      }
+      if (schema.items) {
+        value.forEach((item, index) =>
+          errors.push(
+            ...validateAgainstSchema(item, schema.items!, `${path}[${index}]`)
+          )
+        );
+      }
+      break;
+    }
+    case "string":
+      if (typeof value !== "string") {
+        return [`${path} must be a string`];
+      }
+      break;
+    case "number":
+    case "integer":
+      if (typeof value !== "number" || isNaN(value)) {
+        return [`${path} must be a number`];
+      }
+      if (schema.type === "integer" && !Number.isInteger(value)) {
+        errors.push(`${path} must be an integer`);
+      }
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        errors.push(`${path} must be >= ${schema.minimum}`);
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        errors.push(`${path} must be <= ${schema.maximum}`);
+      }
+      break;
+    case "boolean":
+      if (typeof value !== "boolean") {
+        return [`${path} must be a boolean`];
+      }
+      break;
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    errors.push(`${path} must be one of: ${schema.enum.join(", ")}`);
+  }
+
+  return errors;
+}
+
+/**
+ * AiExtractedField[] returned by screenshot field extraction
+ */
+export const extractedFieldsSchema: JsonSchema = {
+  type: "array",
+  items: {
+    type: "object",
+    properties: {
+      id: { type: "string" },
+      label: { type: "string" },
+      value: { type: "string" },
+      type: { type: "string" },
+      confidence: { type: "number", minimum: 0, maximum: 1 },
+    },
+    required: ["id", "label", "value"],
+  },
+};
+
+/**
+ * `{ fields: [...] }` returned by EMR layout analysis
+ */
+export const emrLayoutSchema: JsonSchema = {
+  type: "object",
+  properties: {
+    fields: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          id: { type: "string" },
+          label: { type: "string" },
+          type: {
+            type: "string",
+            enum: [
+              "text",
+              "number",
+              "date",
+              "long_text",
+              "select",
+              "checkbox",
+              "display",
+            ],
+          },
+          section: { type: "string" },
+          boundingBox: {
+            type: "object",
+            properties: {
+              x: { type: "number" },
+              y: { type: "number" },
+              width: { type: "number" },
+              height: { type: "number" },
+            },
+            required: ["x", "y", "width", "height"],
+          },
+          examples: { type: "array", items: { type: "string" } },
+        },
+        required: ["id", "label", "type", "boundingBox"],
+      },
+    },
+  },
+  required: ["fields"],
+};
@@ -0,0 +1,128 @@
+/**
+ * Pull the answer text out of one streamed event payload
+ * Events carry a JSON string or an object with the text delta; anything else,
+ * including a bare number such as "5", is the text itself
+ */
+function payloadText(payload: string): string {
+  try {
+    const parsed = JSON.parse(payload);
+    if (typeof parsed === "string") {
+      return parsed;
+    }
+    if (parsed && typeof parsed === "object") {
+      const text = ["delta", "text", "answer", "content", "data"]
+        .map((key) => parsed[key])
+        .find((value) => typeof value === "string");
+      return text || "";
+    }
+    return payload;
+  } catch {
+    return payload;
+  }
+}
+
+/**
+ * Pass a stream through, failing when no chunk arrives for `idleMs`
+ * (a stalled answer is cut off, however long the whole answer takes)
+ */
+export async function* withIdleTimeout<T>(
+  stream: AsyncIterable<T>,
+  idleMs: number
+): AsyncGenerator<T> {
+  const iterator = stream[Symbol.asyncIterator]();
+  let completed = false;
+
+  try {
+    while (true) {
+      let timer: NodeJS.Timeout | undefined;
+      const idle = new Promise<never>((_, reject) => {
+        timer = setTimeout(
+          () => reject(new Error(`no data for ${idleMs / 1000}s`)),
+          idleMs
+        );
+      });
+
+      const next = iterator.next();
+      next.catch(() => {}); // Left pending when a stalled stream is stopped
+      const result = await Promise.race([next, idle]).finally(() =>
+        clearTimeout(timer)
+      );
+      if (result.done) {
+        completed = true;
+        return;
+      }
+      yield result.value;
+    }
+  } finally {
+    // Stop the underlying stream when it stalled or the reader gave up
+    // (a Readable is destroyed: its return() waits for the pending read)
+    if (!completed) {
+      const readable = stream as { destroy?: () => void };
+      if (typeof readable.destroy === "function") {
+        readable.destroy();
+      } else {
+        void iterator.return?.();
+      }
+    }
+  }
+}
+
+/**
+ * Read an Ask Heidi answer stream, calling `onText` with each piece as it arrives
+ * Server-sent events ("data: ..." lines, ending at "data: [DONE]") are read as deltas;
+ * a body without events (a plain JSON or text response) is read as the whole answer
+ * Resolves with the full answer
+ */
+export async function readAnswerStream(
+  stream: AsyncIterable<Buffer | string>,
+  onText: (text: string) => void
+): Promise<string> {
+  let buffer = "";
+  let raw = "";
+  let answer = "";
+  let sawEvents = false;
+  // Keeps a multi-byte character split across chunks until its last byte arrives
+  const decoder = new TextDecoder("utf-8");
+
+  const handleLine = (line: string) => {
+    const match = line.match(/^data:\s?(.*)$/);
+    if (!match) {
+      return;
+    }
+    sawEvents = true;
+    if (match[1].trim() === "[DONE]") {
+      return;
+    }
+    const text = payloadText(match[1]);
+    if (text) {
+      answer += text;
+      onText(text);
+    }
+  };
+
+  const append = (text: string) => {
+    raw += text;
+    buffer += text;
+
+    const lines = buffer.split(/\r?\n/);
+    buffer = lines.pop() || "";
+    lines.forEach(handleLine);
+  };
+
+  for await (const chunk of stream) {
+    append(
+      typeof chunk === "string" ? chunk : decoder.decode(chunk, { stream: true })
+    );
+  }
+  append(decoder.decode());
+  handleLine(buffer);
+
+  if (!sawEvents && raw.trim()) {
+    answer = payloadText(raw.trim());
+    if (answer) {
+      onText(answer);
+    }
+  }
+
+  return answer;
+}
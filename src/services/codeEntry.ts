@@ -0,0 +1,62 @@
+import { readFocusedFieldContent } from "../automation/fieldContent";
+import { fillField, fillFieldAndTab } from "../automation/keyboardFiller";
+import { TypingProfile } from "../automation/textEntry";
+import { SessionCode } from "../types/agent";
+import { FillPlanStepResult } from "../types/fillPlan";
+import { formatSessionCode } from "./heidiSessionImporter";
+
+export interface CodeEntryOptions {
+  includeDescription: boolean; // "CODE - description" instead of the bare code
+  separator: string; // "tab", or text typed between codes (", ", "\n", ...)
+}
+
+/**
+ * Type codes into the EMR starting at the focused field
+ * With the "tab" separator each code goes into its own field and is followed by Tab
+ * (like a tab-mode fill plan); otherwise all codes go into the focused field, joined
+ * by the separator
+ * Returns one result per field typed into, with its prior content for undo
+ */
+export async function enterCodes(
+  codes: SessionCode[],
+  options: CodeEntryOptions,
+  typing: TypingProfile
+): Promise<FillPlanStepResult[]> {
+  const texts = codes.map((code) =>
+    formatSessionCode(code, options.includeDescription)
+  );
+  console.log(
+    `[AUTOMATION] Entering ${texts.length} code(s), separator ${JSON.stringify(
+      options.separator
+    )}`
+  );
+
+  if (options.separator !== "tab") {
+    const priorContent = await readFocusedFieldContent();
+    const value = texts.join(options.separator);
+    await fillField(value, typing);
+    return [
+      {
+        emrFieldId: "codes",
+        emrLabel: "Codes",
+        strategy: "type",
+        value,
+        priorContent,
+      },
+    ];
+  }
+
+  const steps: FillPlanStepResult[] = [];
+  for (let i = 0; i < texts.length; i++) {
+    const priorContent = await readFocusedFieldContent();
+    await fillFieldAndTab(texts[i], typing);
+    steps.push({
+      emrFieldId: `code_${i + 1}`,
+      emrLabel: codes[i].code,
+      strategy: "type",
+      value: texts[i],
+      priorContent,
+    });
+  }
+  return steps;
+}
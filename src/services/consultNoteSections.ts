@@ -0,0 +1,215 @@
+import {
+  getNoteSectionDictionary,
+  NoteSectionDictionary,
+} from "../config/noteSections";
+import { SessionField, SessionFieldFormat } from "../types/agent";
+import { htmlToPlainText } from "./richText";
+
+type NoteItem =
+  | {
+      kind: "heading";
+      text: string;
+      level: number;
+      raw: string; // The heading as written, kept when it's a sub-heading
+      rest?: string; // Text after "Plan:" on the same line
+    }
+  | { kind: "content"; text: string };
+
+// Bold lines and "Plan:" labels rank below every # heading
+const PSEUDO_HEADING_LEVEL = 7;
+
+function normalizeHeading(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+/**
+ * Field id for a heading: an exact dictionary heading, else the longest one it starts with
+ * ("Plan and follow-up" → plan)
+ */
+export function matchNoteSection(
+  heading: string,
+  dictionary: NoteSectionDictionary
+): string | null {
+  const wanted = normalizeHeading(heading);
+  if (!wanted) {
+    return null;
+  }
+
+  let best: { id: string; length: number } | null = null;
+  for (const [id, section] of Object.entries(dictionary)) {
+    for (const alias of section.headings.map(normalizeHeading)) {
+      if (alias === wanted) {
+        return id;
+      }
+      if (
+        alias &&
+        wanted.startsWith(`${alias} `) &&
+        (!best || alias.length > best.length)
+      ) {
+        best = { id, length: alias.length };
+      }
+    }
+  }
+  return best ? best.id : null;
+}
+
+/**
+ * Read markdown (or plain text) line by line
+ * Headings are # lines, whole-line bold text, or "Label:" / "**Label:** text" when the
+ * label is in the dictionary
+ */
+function markdownItems(
+  content: string,
+  dictionary: NoteSectionDictionary
+): NoteItem[] {
+  const items: NoteItem[] = [];
+
+  for (const line of content.split(/\r\n|\r|\n/)) {
+    const hashes = line.match(/^\s*(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (hashes) {
+      const text = hashes[2]
+        .replace(/^(\*\*|__)(.*)\1$/, "$2")
+        .replace(/:$/, "");
+      items.push({
+        kind: "heading",
+        text,
+        level: hashes[1].length,
+        raw: line,
+      });
+      continue;
+    }
+
+    const bold = line.match(/^\s*(\*\*|__)(.+?):?\1\s*:?\s*$/);
+    if (bold) {
+      items.push({
+        kind: "heading",
+        text: bold[2],
+        level: PSEUDO_HEADING_LEVEL,
+        raw: line,
+      });
+      continue;
+    }
+
+    const label =
+      line.match(/^\s*(\*\*|__)([^*_:]{1,40})(?::\1|\1:)\s*(.*)$/) ||
+      line.match(/^()\s*([A-Za-z][A-Za-z /&-]{0,39}):\s+(.*)$/);
+    if (label && matchNoteSection(label[2], dictionary)) {
+      items.push({
+        kind: "heading",
+        text: label[2],
+        level: PSEUDO_HEADING_LEVEL,
+        raw: line,
+        rest: label[3],
+      });
+      continue;
+    }
+
+    items.push({ kind: "content", text: line });
+  }
+
+  return items;
+}
+
+/**
+ * Read HTML as <h1>–<h6> headings and bold-only paragraphs, with the markup between as content
+ */
+function htmlItems(content: string): NoteItem[] {
+  const items: NoteItem[] = [];
+  const pattern =
+    /<h([1-6])[^>]*>([\s\S]*?)<\/h\1>|<p[^>]*>\s*<(strong|b)>([\s\S]*?)<\/\3>\s*:?\s*<\/p>/gi;
+  let last = 0;
+
+  for (const match of content.matchAll(pattern)) {
+    const index = match.index ?? 0;
+    if (index > last) {
+      items.push({ kind: "content", text: content.slice(last, index) });
+    }
+    items.push({
+      kind: "heading",
+      text: htmlToPlainText(match[2] ?? match[4]).replace(/:$/, ""),
+      level: match[1] ? Number(match[1]) : PSEUDO_HEADING_LEVEL,
+      raw: match[0],
+    });
+    last = index + match[0].length;
+  }
+
+  if (last < content.length) {
+    items.push({ kind: "content", text: content.slice(last) });
+  }
+  return items;
+}
+
+function toFieldId(text: string): string {
+  return normalizeHeading(text).replace(/ /g, "_");
+}
+
+/**
+ * Split a consult note into one session field per section, keeping the note's format
+ * Headings in the dictionary map to its field ids and labels; other headings become
+ * `<unknownPrefix>_<heading>` fields, unless they sit below a section's heading level
+ * (e.g. "### Cardiovascular" under "## Examination"), where they stay in that section
+ * Repeated sections are joined; text before the first heading and empty sections are dropped
+ */
+export function splitConsultNote(
+  content: string,
+  format: SessionFieldFormat = "markdown",
+  dictionary: NoteSectionDictionary = getNoteSectionDictionary(),
+  unknownPrefix: string = "consult_note"
+): SessionField[] {
+  const isHtml = format === "html";
+  const items = isHtml
+    ? htmlItems(content)
+    : markdownItems(content, dictionary);
+
+  const sections = new Map<string, { label: string; parts: string[] }>();
+  let current: { id: string; level: number } | null = null;
+
+  for (const item of items) {
+    if (item.kind === "content") {
+      if (current) {
+        sections.get(current.id)!.parts.push(item.text);
+      }
+      continue;
+    }
+
+    const id = matchNoteSection(item.text, dictionary);
+    if (!id && current && item.level > current.level) {
+      // Sub-heading of the current section
+      sections.get(current.id)!.parts.push(item.raw);
+      continue;
+    }
+
+    const sectionId = id || `${unknownPrefix}_${toFieldId(item.text)}`;
+    if (!sections.has(sectionId)) {
+      sections.set(sectionId, {
+        label: id ? dictionary[id].label : item.text.trim(),
+        parts: [],
+      });
+    }
+    if (item.rest) {
+      sections.get(sectionId)!.parts.push(item.rest);
+    }
+    current = { id: sectionId, level: item.level };
+  }
+
+  const fields: SessionField[] = [];
+  for (const [id, section] of sections) {
+    const value = (isHtml ? section.parts.join("") : section.parts.join("\n"))
+      .replace(/\n{3,}/g, "\n\n")
+      .trim();
+    const text = isHtml ? htmlToPlainText(value) : value;
+    if (text) {
+      fields.push({
+        id,
+        label: section.label,
+        value,
+        format,
+        source: "heidi",
+      });
+    }
+  }
+  return fields;
+}
@@ -0,0 +1,151 @@
+import {
+  DocumentGenerationRequest,
+  GeneratedDocument,
+  SessionField,
+  SessionFieldFormat,
+} from "../types/agent";
+import { HeidiDocument } from "../types/heidi";
+import { splitConsultNote } from "./consultNoteSections";
+import { createDocument, getDocument } from "./heidiApiClient";
+import { parseContentFormat } from "./richText";
+
+export interface DocumentPollOptions {
+  intervalMs: number;
+  timeoutMs: number;
+}
+
+const DEFAULT_POLL_OPTIONS: DocumentPollOptions = {
+  intervalMs: 2000,
+  timeoutMs: 120000,
+};
+
+const PENDING_STATUSES = [
+  "PENDING",
+  "QUEUED",
+  "PROCESSING",
+  "GENERATING",
+  "IN_PROGRESS",
+];
+const FAILED_STATUSES = ["FAILED", "ERROR"];
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function toFieldId(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+function documentStatus(document: HeidiDocument): string {
+  return typeof document.status === "string"
+    ? document.status.toUpperCase()
+    : "";
+}
+
+/**
+ * A document is ready once it has content and no longer reports a pending status
+ */
+function isDocumentReady(document: HeidiDocument): boolean {
+  return (
+    typeof document.content === "string" &&
+    document.content.trim() !== "" &&
+    !PENDING_STATUSES.includes(documentStatus(document))
+  );
+}
+
+/**
+ * Session fields for a generated document: the whole document as `document_<label>`,
+ * then its sections as `document_<label>_<section>` ("Referral letter: Plan")
+ */
+export function buildGeneratedDocumentFields(
+  label: string,
+  content: string,
+  format: SessionFieldFormat
+): SessionField[] {
+  const documentId = `document_${toFieldId(label) || "generated"}`;
+  const sections = splitConsultNote(content, format, undefined, documentId).map(
+    (field) => ({
+      ...field,
+      id: field.id.startsWith(`${documentId}_`)
+        ? field.id
+        : `${documentId}_${field.id}`,
+      label: `${label}: ${field.label}`,
+    })
+  );
+
+  return [
+    {
+      id: documentId,
+      label,
+      value: content.trim(),
+      format,
+      source: "heidi" as const,
+    },
+    ...sections,
+  ];
+}
+
+/**
+ * Generate a document from a template for a Heidi session
+ * Creates the document, then polls it until Heidi has written its content
+ * Throws when creation fails, Heidi reports the generation failed, or polling times out
+ */
+export async function generateDocument(
+  sessionId: string,
+  request: DocumentGenerationRequest,
+  poll: DocumentPollOptions = DEFAULT_POLL_OPTIONS
+): Promise<GeneratedDocument> {
+  const label = request.label?.trim() || request.templateId;
+  console.log(
+    `[HEIDI] Generating "${label}" (template ${request.templateId}) for session ${sessionId}`
+  );
+
+  const created = await createDocument(sessionId, {
+    document_tab_type: "DOCUMENT",
+    generation_method: "TEMPLATE",
+    template_id: request.templateId,
+    voice_style: request.voiceStyle || "GOLDILOCKS",
+    brain: request.brain,
+    content_type: request.contentType || "MARKDOWN",
+  });
+  if (!created.ok || !created.data) {
+    throw new Error(created.error || "Heidi did not create the document");
+  }
+
+  let document = created.data;
+  const deadline = Date.now() + poll.timeoutMs;
+  while (!isDocumentReady(document)) {
+    if (FAILED_STATUSES.includes(documentStatus(document))) {
+      throw new Error(`Heidi could not generate "${label}"`);
+    }
+    if (Date.now() >= deadline) {
+      throw new Error(`Timed out waiting for Heidi to generate "${label}"`);
+    }
+    await sleep(poll.intervalMs);
+
+    const polled = await getDocument(sessionId, document.id);
+    if (!polled.ok || !polled.data) {
+      throw new Error(polled.error || `Document ${document.id} not found`);
+    }
+    document = { ...document, ...polled.data };
+  }
+
+  const content = (document.content as string).trim();
+  const format = parseContentFormat(
+    document.content_type || request.contentType || "MARKDOWN"
+  );
+  console.log(
+    `[HEIDI] Generated "${label}" (${content.length} chars) for session ${sessionId}`
+  );
+
+  return {
+    documentId: document.id,
+    label,
+    content,
+    format,
+    fields: buildGeneratedDocumentFields(label, content, format),
+  };
+}
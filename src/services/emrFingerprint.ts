@@ -0,0 +1,101 @@
+import * as crypto from "crypto";
+import { LinkedWindow } from "../types/agent";
+import { EmrField } from "../types/emr";
+
+/**
+ * Fraction of a cached layout's labels that must be visible on screen
+ * before the layout is reused without a new vision call
+ */
+export const LAYOUT_MATCH_THRESHOLD = 0.8;
+
+/**
+ * Normalize a label for comparison (lowercase, remove punctuation, collapse spaces)
+ */
+export function normalizeLabel(label: string): string {
+  return label
+    .toLowerCase()
+    .replace(/[^\w\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Turn free text into a snake_case slug
+ */
+function slugify(text: string): string {
+  return normalizeLabel(text).replace(/\s+/g, "_");
+}
+
+/**
+ * Whether a window title segment carries patient-specific data
+ * (digits such as DOB/MRN, "Surname, Given", or an honorific)
+ */
+function isVolatileTitleSegment(segment: string): boolean {
+  return (
+    /\d/.test(segment) ||
+    /^[A-Z][\w'-]+,\s*[A-Z]/.test(segment) ||
+    /^(mr|mrs|ms|miss|mx|dr)\.?\s/i.test(segment)
+  );
+}
+
+/**
+ * Get EMR identifier from the linked window's app name
+ */
+export function getEmrId(linkedWindow?: Pick<LinkedWindow, "appName">): string {
+  const slug = linkedWindow ? slugify(linkedWindow.appName) : "";
+  return slug || "generic_emr";
+}
+
+/**
+ * Reduce a window title to the parts that stay the same across patients
+ * e.g. "Patient Details - Smith, John (DOB 01/02/1980)" → "patient_details"
+ */
+export function getWindowTitlePattern(windowTitle?: string): string {
+  if (!windowTitle) {
+    return "";
+  }
+
+  return windowTitle
+    .replace(/\([^)]*\)|\[[^\]]*\]/g, " ")
+    .split(/\s+[-|—–:]\s+/)
+    .map((segment) => segment.trim())
+    .filter((segment) => segment && !isVolatileTitleSegment(segment))
+    .map(slugify)
+    .filter(Boolean)
+    .join("-");
+}
+
+/**
+ * Stable screen identifier: a hash of the sorted, normalized field labels
+ * Unlike a screenshot hash, it survives a different patient or a blinking cursor
+ */
+export function getScreenFingerprint(fields: Pick<EmrField, "label">[]): string {
+  const labels = Array.from(
+    new Set(fields.map((f) => normalizeLabel(f.label)).filter(Boolean))
+  ).sort();
+  const hash = crypto
+    .createHash("md5")
+    .update(labels.join("|"))
+    .digest("hex")
+    .substring(0, 16);
+  return `labels_${hash}`;
+}
+
+/**
+ * Fraction (0-1) of field labels that appear in the given on-screen text
+ */
+export function scoreLabelsInText(
+  fields: Pick<EmrField, "label">[],
+  text: string
+): number {
+  const labels = Array.from(
+    new Set(fields.map((f) => normalizeLabel(f.label)).filter(Boolean))
+  );
+  if (labels.length === 0) {
+    return 0;
+  }
+
+  const haystack = ` ${normalizeLabel(text)} `;
+  const found = labels.filter((label) => haystack.includes(` ${label} `));
+  return found.length / labels.length;
+}
@@ -1,13 +1,20 @@
-import axios from "axios";
 import { getVisionAiConfig, isVisionAiEnabled } from "../config/aiConfig";
 import { EmrField } from "../types/emr";
 import { HeidiFieldId, HeidiSnapshot } from "../types/agent";
+import {
+  clearUnconfirmedMappings,
+  getStoredMapping,
+  saveMapping,
+} from "./mappingStore";
+import { visionLlmClient } from "./visionLlmClient";
 
 /**
- * In-memory cache for EMR→Heidi field mappings
- * Key: `${emrLayoutId}:${emrFieldId}` → `heidiFieldId`
+ * Identifies the EMR screen a field belongs to in the mapping store
  */
-const mappingCache = new Map<string, HeidiFieldId | null>();
+export interface MappingScope {
+  emrId: string;
+  screenId: string;
+}
 
 /**
  * Normalize a string for comparison (lowercase, remove punctuation, collapse spaces)
@@ -150,54 +157,9 @@ Respond with ONLY the Heidi field ID (e.g., "patient_name") or "NONE" if no good
 Heidi Field ID:`;
 
   try {
-    let requestBody: any;
-    let headers: any = {
-      "Content-Type": "application/json",
-    };
-
-    if (config.provider === "openai") {
-      requestBody = {
-        model: config.modelId,
-        messages: [
-          {
-            role: "user",
-            content: prompt,
-          },
-        ],
-        max_tokens: 100,
-        temperature: 0.1,
-      };
-      headers.Authorization = `Bearer ${config.apiKey}`;
-    } else if (config.provider === "claude" || config.provider === "anthropic") {
-      requestBody = {
-        model: config.modelId,
-        max_tokens: 100,
-        messages: [
-          {
-            role: "user",
-            content: [
-              {
-                type: "text",
-                text: prompt,
-              },
-            ],
-          },
-        ],
-      };
-      headers["x-api-key"] = config.apiKey;
-      headers["anthropic-version"] = "2023-06-01";
-    } else {
-      return null;
-    }
-
-    const response = await axios.post(config.apiUrl!, requestBody, { headers });
-
-    let text: string;
-    if (config.provider === "openai") {
-      text = response.data.choices[0]?.message?.content?.trim() || "";
-    } else {
-      text = response.data.content[0]?.text?.trim() || "";
-    }
+    const text = await visionLlmClient.completeText(prompt, {
+      maxTokens: 100,
+    });
 
     if (text === "NONE" || !text) {
       return null;
@@ -223,29 +185,49 @@ Heidi Field ID:`;
 
 /**
  * Map an EMR field to a Heidi field ID
- * Uses heuristic matching first, then AI if enabled and heuristic fails
+ * Remembered mappings come first (confirmed corrections beat everything),
+ * then heuristic matching, then AI if enabled and heuristic fails
  */
 export async function mapEmrFieldToHeidiField(
   emrField: EmrField,
   heidiSnapshot: HeidiSnapshot,
-  emrLayoutId?: string
+  scope?: MappingScope
 ): Promise<HeidiFieldId | null> {
-  // Check cache first
-  if (emrLayoutId) {
-    const cacheKey = `${emrLayoutId}:${emrField.id}`;
-    const cached = mappingCache.get(cacheKey);
-    if (cached !== undefined) {
-      console.log(`[MAPPER] Using cached mapping: ${cacheKey} → ${cached || "null"}`);
-      return cached;
+  // Check the mapping store first
+  if (scope) {
+    const stored = getStoredMapping(scope.emrId, scope.screenId, emrField);
+    const isAvailable =
+      stored?.heidiFieldId != null &&
+      heidiSnapshot.fields.some((f) => f.id === stored.heidiFieldId);
+
+    if (stored?.confirmed && (stored.heidiFieldId === null || isAvailable)) {
+      console.log(
+        `[MAPPER] Using confirmed mapping: "${emrField.label}" → ${
+          stored.heidiFieldId || "none"
+        }`
+      );
+      return stored.heidiFieldId;
+    }
+
+    if (stored && !stored.confirmed && isAvailable) {
+      console.log(
+        `[MAPPER] Using remembered mapping: "${emrField.label}" → "${stored.heidiFieldId}"`
+      );
+      return stored.heidiFieldId;
     }
   }
 
   // Try heuristic first (fast, no API call)
   const heuristicMatch = matchHeuristically(emrField, heidiSnapshot.fields);
   if (heuristicMatch) {
-    // Cache the result
-    if (emrLayoutId) {
-      mappingCache.set(`${emrLayoutId}:${emrField.id}`, heuristicMatch);
+    if (scope) {
+      await saveMapping(
+        scope.emrId,
+        scope.screenId,
+        emrField,
+        heuristicMatch,
+        false
+      );
     }
     return heuristicMatch;
   }
@@ -253,25 +235,21 @@ export async function mapEmrFieldToHeidiField(
   // If heuristic failed and AI is enabled, try AI matching
   if (isVisionAiEnabled()) {
     const aiMatch = await matchWithAI(emrField, heidiSnapshot.fields);
-    // Cache the result (even if null)
-    if (emrLayoutId) {
-      mappingCache.set(`${emrLayoutId}:${emrField.id}`, aiMatch);
+    // Only remember actual matches; a miss may match once Heidi fields change
+    if (scope && aiMatch) {
+      await saveMapping(scope.emrId, scope.screenId, emrField, aiMatch, false);
     }
     return aiMatch;
   }
 
   // No match found
-  if (emrLayoutId) {
-    mappingCache.set(`${emrLayoutId}:${emrField.id}`, null);
-  }
   return null;
 }
 
 /**
- * Clear mapping cache (useful for testing or when Heidi fields change)
+ * Forget automatically learned mappings (confirmed corrections are kept)
  */
-export function clearMappingCache(): void {
-  mappingCache.clear();
-  console.log("[MAPPER] Mapping cache cleared");
+export async function clearMappingCache(): Promise<void> {
+  await clearUnconfirmedMappings();
+  console.log("[MAPPER] Learned mappings cleared");
 }
-
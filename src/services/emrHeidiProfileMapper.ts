@@ -128,30 +128,88 @@ export function buildHeidiPatientProfileFromEmrSnapshot(
   return profile;
 }
 
+/**
+ * Day/month order assumed for ambiguous numeric dates like 03/04/1980
+ */
+export type DateOrder = "mdy" | "dmy";
+
+const MONTH_NAMES = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+
+/**
+ * Build YYYY-MM-DD from parts, or null if the parts are not a real date
+ */
+function toIsoDate(year: number, month: number, day: number): string | null {
+  if (year < 100) {
+    year += year > (new Date().getFullYear() % 100) ? 1900 : 2000;
+  }
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return null;
+  }
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(
+    2,
+    "0"
+  )}`;
+}
+
 /**
  * Normalize date string to ISO format (YYYY-MM-DD)
- * Handles common formats like MM/DD/YYYY, DD/MM/YYYY, etc.
+ * Handles YYYY-MM-DD, MM/DD/YYYY, DD/MM/YYYY (also with - or . separators) and "12 March 1980" style dates
+ * Ambiguous numeric dates use `order` (US MM/DD by default); a first part over 12 is always the day
+ * Returns the trimmed input unchanged if it can't be parsed
  */
-function normalizeDate(dateStr: string): string {
+export function normalizeDate(dateStr: string, order: DateOrder = "mdy"): string {
   // Remove extra whitespace
   const cleaned = dateStr.trim();
 
-  // Try ISO format first (YYYY-MM-DD)
-  if (/^\d{4}-\d{2}-\d{2}$/.test(cleaned)) {
-    return cleaned;
+  // Try ISO format first (YYYY-MM-DD, optionally with a time)
+  const isoMatch = cleaned.match(/^(\d{4})[-\/.](\d{1,2})[-\/.](\d{1,2})(?:[T ].*)?$/);
+  if (isoMatch) {
+    const [, year, month, day] = isoMatch;
+    return toIsoDate(+year, +month, +day) ?? cleaned;
   }
 
   // Try MM/DD/YYYY or DD/MM/YYYY
-  const slashMatch = cleaned.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
-  if (slashMatch) {
-    const [, part1, part2, year] = slashMatch;
-    // Assume MM/DD/YYYY (US format) - could be made configurable
-    const month = part1.padStart(2, "0");
-    const day = part2.padStart(2, "0");
-    return `${year}-${month}-${day}`;
+  const numericMatch = cleaned.match(/^(\d{1,2})[-\/.](\d{1,2})[-\/.](\d{2}|\d{4})$/);
+  if (numericMatch) {
+    const [, part1, part2, year] = numericMatch;
+    const dayFirst = order === "dmy" ? +part2 <= 12 : +part1 > 12;
+    const [month, day] = dayFirst ? [+part2, +part1] : [+part1, +part2];
+    return toIsoDate(+year, month, day) ?? cleaned;
+  }
+
+  // Try "12 March 1980", "12-Mar-1980" or "March 12, 1980"
+  const namedMatch =
+    cleaned.match(/^(\d{1,2})(?:st|nd|rd|th)?[\s\-]+([a-z]+)\.?,?[\s\-]+(\d{4})$/i) ||
+    cleaned.match(/^([a-z]+)\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})$/i);
+  if (namedMatch) {
+    const dayFirst = /^\d/.test(namedMatch[1]);
+    const day = dayFirst ? namedMatch[1] : namedMatch[2];
+    const monthName = (dayFirst ? namedMatch[2] : namedMatch[1]).toLowerCase();
+    const month = MONTH_NAMES.indexOf(monthName.slice(0, 3)) + 1;
+    if (month > 0) {
+      return toIsoDate(+namedMatch[3], month, +day) ?? cleaned;
+    }
   }
 
-  // Try other formats or return as-is if can't parse
+  // Return as-is if can't parse
   return cleaned;
 }
 
@@ -159,7 +217,7 @@ function normalizeDate(dateStr: string): string {
  * Normalize phone number string
  * Removes common formatting characters, keeps digits
  */
-function normalizePhone(phoneStr: string): string {
+export function normalizePhone(phoneStr: string): string {
   // Remove common formatting: spaces, dashes, parentheses, dots
   return phoneStr.replace(/[\s\-\(\)\.]/g, "");
 }
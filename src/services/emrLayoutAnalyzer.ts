@@ -1,46 +1,179 @@
-import axios from "axios";
-import * as crypto from "crypto";
-import { getVisionAiConfig, isVisionAiEnabled } from "../config/aiConfig";
-import { EmrField, EmrLayout } from "../types/emr";
+import sharp from "sharp";
+import {
+  getLayoutAnalyzerMode,
+  getVisionAiConfig,
+  isVisionAiEnabled,
+} from "../config/aiConfig";
+import { LinkedWindow } from "../types/agent";
+import { EmrField, EmrLayout, ImageSize } from "../types/emr";
+import {
+  getEmrId,
+  getScreenFingerprint,
+  getWindowTitlePattern,
+  LAYOUT_MATCH_THRESHOLD,
+  scoreLabelsInText,
+} from "./emrFingerprint";
+import { alignLayoutToScreen, attachLabelBounds } from "./layoutAlignment";
+import { clearLayouts, getLayouts, saveLayout } from "./layoutLibrary";
+import { OcrResult, recognize } from "./ocr";
+import { emrLayoutSchema } from "./aiSchemas";
+import { analyzeLayoutFromOcr } from "./ocrLayoutAnalyzer";
+import { visionLlmClient } from "./visionLlmClient";
 
 /**
- * In-memory cache for EMR layouts
- * Key: `${emrId}:${screenId}` or hash of screenshot
+ * Find a stored layout for the same form (possibly a different patient)
+ * OCRs the screenshot and picks the layout whose labels are visible on screen
  */
-const layoutCache = new Map<string, EmrLayout>();
+async function findMatchingStoredLayout(
+  readScreen: () => Promise<OcrResult>,
+  emrId: string,
+  titlePattern: string
+): Promise<EmrLayout | null> {
+  const candidates = getLayouts(emrId).filter(
+    (layout) =>
+      !titlePattern ||
+      !layout.titlePattern ||
+      layout.titlePattern === titlePattern
+  );
+
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  let screen: OcrResult;
+  try {
+    screen = await readScreen();
+  } catch (error) {
+    console.warn("[EMR] OCR unavailable, cannot match stored layouts:", error);
+    return null;
+  }
+  const screenText = screen.plainText;
+
+  let best: EmrLayout | null = null;
+  let bestScore = 0;
+  for (const layout of candidates) {
+    const score = scoreLabelsInText(layout.fields, screenText);
+    // Prefer the more specific layout when scores tie
+    if (
+      score > bestScore ||
+      (best && score === bestScore && layout.fields.length > best.fields.length)
+    ) {
+      best = layout;
+      bestScore = score;
+    }
+  }
+
+  if (best && bestScore >= LAYOUT_MATCH_THRESHOLD) {
+    console.log(
+      `[EMR] Reusing stored layout ${best.emrId}:${best.screenId} (${Math.round(
+        bestScore * 100
+      )}% of labels on screen)`
+    );
+    return alignLayoutToScreen(best, screen);
+  }
+
+  return null;
+}
 
 /**
- * Generate a simple hash of an image buffer for cache key
+ * Pixel size of a screenshot
  */
-function hashImageBuffer(buffer: Buffer): string {
-  return crypto.createHash("md5").update(buffer).digest("hex").substring(0, 16);
+async function getImageSize(imageBuffer: Buffer): Promise<ImageSize | undefined> {
+  const { width, height } = await sharp(imageBuffer).metadata();
+  return width && height ? { width, height } : undefined;
 }
 
 /**
- * Get EMR identifier from active window title
+ * Record label positions for later re-alignment (skipped when OCR is unavailable)
  */
-function getEmrId(): string {
-  // Try to get active window title
-  // For now, use a generic identifier
-  // In the future, could detect specific EMR systems
-  return "generic_emr";
+async function withLabelBounds(
+  fields: EmrField[],
+  readScreen: () => Promise<OcrResult>
+): Promise<EmrField[]> {
+  try {
+    return attachLabelBounds(fields, await readScreen());
+  } catch (error) {
+    console.warn("[EMR] OCR unavailable, layout stored without label positions:", error);
+    return fields;
+  }
 }
 
 /**
- * Get screen identifier (could be route, form name, etc.)
- * For now, use a hash of the screenshot
+ * Analyze EMR layout locally from OCR word boxes (no screenshot leaves the machine)
  */
-function getScreenId(imageHash: string): string {
-  return `screen_${imageHash}`;
+async function analyzeEmrLayoutOffline(
+  imageBuffer: Buffer,
+  readScreen: () => Promise<OcrResult>,
+  emrId: string,
+  titlePattern: string
+): Promise<EmrLayout> {
+  console.log("[EMR] Analyzing EMR layout with local OCR...");
+
+  try {
+    const imageSize = await getImageSize(imageBuffer);
+    const screen = await readScreen();
+    const fields = analyzeLayoutFromOcr(screen, imageSize?.width);
+
+    if (fields.length === 0) {
+      throw new Error("No field labels found on screen");
+    }
+
+    const layout: EmrLayout = {
+      emrId,
+      screenId: getScreenFingerprint(fields),
+      titlePattern: titlePattern || undefined,
+      fields: attachLabelBounds(fields, screen),
+      imageSize,
+      createdAt: Date.now(),
+    };
+
+    await saveLayout(layout);
+    console.log("[EMR] Layout analyzed offline:", fields.length, "fields found");
+
+    return layout;
+  } catch (error) {
+    console.error("[EMR] Error analyzing layout offline:", error);
+    throw new Error(
+      `EMR layout analysis failed: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+  }
 }
 
 /**
- * Analyze EMR layout from screenshot using AI vision
+ * Analyze EMR layout from screenshot
+ * Uses AI vision when configured, or local OCR (see EMR_LAYOUT_ANALYZER)
  */
 export async function analyzeEmrLayout(
-  imageBuffer: Buffer
+  imageBuffer: Buffer,
+  linkedWindow?: LinkedWindow
 ): Promise<EmrLayout> {
+  const emrId = getEmrId(linkedWindow);
+  const titlePattern = getWindowTitlePattern(linkedWindow?.windowTitle);
+
+  // OCR the screen at most once (layout matching and offline analysis share it)
+  let ocrResult: OcrResult | null = null;
+  const readScreen = async (): Promise<OcrResult> => {
+    if (!ocrResult) {
+      ocrResult = await recognize(imageBuffer);
+    }
+    return ocrResult;
+  };
+
+  // Same form, different patient: reuse the layout without a vision call
+  const cached = await findMatchingStoredLayout(readScreen, emrId, titlePattern);
+  if (cached) {
+    // Boxes were re-aligned against this capture
+    return { ...cached, imageSize: await getImageSize(imageBuffer) };
+  }
+
   const config = getVisionAiConfig();
+  const mode = getLayoutAnalyzerMode();
+
+  if (mode === "ocr" || (mode === "auto" && !config.enabled)) {
+    return analyzeEmrLayoutOffline(imageBuffer, readScreen, emrId, titlePattern);
+  }
 
   if (!config.enabled) {
     throw new Error(
@@ -48,19 +181,6 @@ export async function analyzeEmrLayout(
     );
   }
 
-  const base64Image = imageBuffer.toString("base64");
-  const emrId = getEmrId();
-  const imageHash = hashImageBuffer(imageBuffer);
-  const screenId = getScreenId(imageHash);
-
-  // Check cache first
-  const cacheKey = `${emrId}:${screenId}`;
-  const cached = layoutCache.get(cacheKey);
-  if (cached) {
-    console.log("[EMR] Using cached layout:", cacheKey);
-    return cached;
-  }
-
   console.log("[EMR] Analyzing EMR layout with AI...");
   console.log("[EMR] Provider:", config.provider, "Model:", config.modelId);
 
@@ -103,23 +223,26 @@ Guidelines:
 - Bounding boxes should tightly wrap the input area (not just the label)
 - If a field spans multiple lines (like a textarea), include the full bounding box
 - Group related fields into sections (demographics, clinical, medications, etc.)
+- For select (dropdown) fields, list every visible option in "examples" in the order shown
 - MOST IMPORTANT: Order fields by Tab sequence (top-to-bottom, left-to-right)
 - Return ONLY the JSON object, no markdown, no explanation
 
 JSON object:`;
 
   try {
-    const fields = await callAiApiForLayout(config, base64Image, prompt);
+    const fields = await callAiApiForLayout(imageBuffer, prompt);
 
     const layout: EmrLayout = {
       emrId,
-      screenId,
-      fields,
+      screenId: getScreenFingerprint(fields),
+      titlePattern: titlePattern || undefined,
+      fields: await withLabelBounds(fields, readScreen),
+      imageSize: await getImageSize(imageBuffer),
       createdAt: Date.now(),
     };
 
-    // Cache the layout
-    layoutCache.set(cacheKey, layout);
+    // Store the layout so later patients on the same form reuse it
+    await saveLayout(layout);
     console.log("[EMR] Layout analyzed:", fields.length, "fields found");
 
     return layout;
@@ -137,96 +260,15 @@ JSON object:`;
  * Call AI API to extract EMR layout fields
  */
 async function callAiApiForLayout(
-  config: ReturnType<typeof getVisionAiConfig>,
-  base64Image: string,
+  imageBuffer: Buffer,
   prompt: string
 ): Promise<EmrField[]> {
-  let requestBody: any;
-  let headers: any = {
-    "Content-Type": "application/json",
-  };
-
-  if (config.provider === "openai") {
-    requestBody = {
-      model: config.modelId,
-      messages: [
-        {
-          role: "user",
-          content: [
-            {
-              type: "text",
-              text: prompt,
-            },
-            {
-              type: "image_url",
-              image_url: {
-                url: `data:image/png;base64,${base64Image}`,
-              },
-            },
-          ],
-        },
-      ],
-      max_tokens: 4000,
-      temperature: 0.1,
-    };
-    headers.Authorization = `Bearer ${config.apiKey}`;
-  } else if (config.provider === "claude" || config.provider === "anthropic") {
-    requestBody = {
-      model: config.modelId,
-      max_tokens: 4000,
-      messages: [
-        {
-          role: "user",
-          content: [
-            {
-              type: "text",
-              text: prompt,
-            },
-            {
-              type: "image",
-              source: {
-                type: "base64",
-                media_type: "image/png",
-                data: base64Image,
-              },
-            },
-          ],
-        },
-      ],
-    };
-    headers["x-api-key"] = config.apiKey;
-    headers["anthropic-version"] = "2023-06-01";
-  } else {
-    throw new Error(`Unsupported AI provider: ${config.provider}`);
-  }
-
-  const response = await axios.post(config.apiUrl!, requestBody, { headers });
-
-  let jsonText: string;
-  if (config.provider === "openai") {
-    jsonText = response.data.choices[0]?.message?.content || "";
-  } else {
-    // Claude
-    jsonText = response.data.content[0]?.text || "";
-  }
-
-  // Extract JSON from markdown code blocks if present
-  const jsonMatch = jsonText.match(/```(?:json)?\s*(\{[\s\S]*\})\s*```/);
-  if (jsonMatch) {
-    jsonText = jsonMatch[1];
-  }
-
-  // Parse JSON
-  let parsed: { fields: any[] };
-  try {
-    parsed = JSON.parse(jsonText);
-  } catch (parseError) {
-    console.error(
-      "[EMR] Failed to parse AI response:",
-      jsonText.substring(0, 500)
-    );
-    throw new Error("AI returned invalid JSON");
-  }
+  const parsed = await visionLlmClient.completeStructured<{ fields: any[] }>(
+    prompt,
+    emrLayoutSchema,
+    imageBuffer,
+    { maxTokens: 4000, schemaName: "emr_layout" }
+  );
 
   // Validate and convert to EmrField[]
   if (!Array.isArray(parsed.fields)) {
@@ -270,19 +312,20 @@ async function callAiApiForLayout(
  * Get or analyze EMR layout (with caching)
  */
 export async function getOrAnalyzeLayout(
-  imageBuffer: Buffer
+  imageBuffer: Buffer,
+  linkedWindow?: LinkedWindow
 ): Promise<EmrLayout> {
-  if (!isVisionAiEnabled()) {
+  if (getLayoutAnalyzerMode() === "vision" && !isVisionAiEnabled()) {
     throw new Error("Vision AI not enabled. Cannot analyze EMR layout.");
   }
 
-  return analyzeEmrLayout(imageBuffer);
+  return analyzeEmrLayout(imageBuffer, linkedWindow);
 }
 
 /**
- * Clear layout cache (useful for testing or when EMR layout changes)
+ * Clear stored layouts (useful for testing or when EMR layout changes)
  */
-export function clearLayoutCache(): void {
-  layoutCache.clear();
+export async function clearLayoutCache(): Promise<void> {
+  await clearLayouts();
   console.log("[EMR] Layout cache cleared");
 }
@@ -180,6 +180,10 @@ export async function inferCurrentEmrFieldContext(
   if (ocrResult.blocks.length > 0 && centerPoint) {
     console.log("[INFERENCE] Using", ocrResult.blocks.length, "OCR blocks with bounds");
     for (const block of ocrResult.blocks) {
+      // Ignore lines Tesseract is unsure about (usually icons or noise)
+      if (block.confidence !== undefined && block.confidence < 0.3) {
+        continue;
+      }
       if (block.bounds) {
         const blockCenterX = block.bounds.x + block.bounds.width / 2;
         const blockCenterY = block.bounds.y + block.bounds.height / 2;
@@ -188,8 +192,9 @@ export async function inferCurrentEmrFieldContext(
           Math.pow(blockCenterY - centerPoint.y, 2)
         );
         
-        // Prefer blocks closer to center
-        const confidence = 1 / (1 + distance / 100);
+        // Prefer blocks closer to center, weighted by OCR confidence
+        const confidence =
+          (1 / (1 + distance / 100)) * (block.confidence ?? 1);
         if (confidence > bestConfidence) {
           bestConfidence = confidence;
           bestLabel = block.text;
@@ -356,7 +361,7 @@ function matchFieldHeuristically(
 /**
  * Infer field type from EMR text (simple heuristics)
  */
-function inferEmrFieldType(text: string): string | null {
+export function inferEmrFieldType(text: string): string | null {
   const lower = text.toLowerCase();
 
   // Date patterns
@@ -1,11 +1,33 @@
+import { getEmrFormatProfile } from "../config/emrProfiles";
 import { HeidiSnapshot } from "../types/agent";
 import { EmrLayout } from "../types/emr";
-import { FillPlan, FillPlanStep } from "../types/fillPlan";
+import { FillPlan, FillPlanStep, FocusMode } from "../types/fillPlan";
 import { mapEmrFieldToHeidiField } from "./emrHeidiMapper";
+import { chooseFillStrategy, getFieldOptions } from "./fillStrategies";
+import { saveMapping } from "./mappingStore";
+
+/**
+ * Click into fields when the profile asks for it and every fillable field has a box to click
+ */
+function chooseFocusMode(
+  emrLayout: EmrLayout,
+  steps: FillPlanStep[],
+  preferred: FocusMode
+): FocusMode {
+  if (preferred !== "click" || !emrLayout.imageSize || steps.length === 0) {
+    return "tab";
+  }
+
+  const clickable = steps.every(
+    (step) => step.emrBounds && step.emrBounds.width > 0 && step.emrBounds.height > 0
+  );
+  return clickable ? "click" : "tab";
+}
 
 /**
  * Build a fill plan from ordered EMR fields and Heidi snapshot
  * The plan maps each EMR field (in tab order) to a Heidi field (or null)
+ * and picks a fill strategy for the field's control type
  */
 export async function buildFillPlan(
   emrLayout: EmrLayout,
@@ -18,6 +40,8 @@ export async function buildFillPlan(
   );
 
   const steps: FillPlanStep[] = [];
+  const scope = { emrId: emrLayout.emrId, screenId: emrLayout.screenId };
+  const profile = getEmrFormatProfile(emrLayout.emrId);
 
   // Process each EMR field in order (array index = tab order)
   for (const emrField of emrLayout.fields) {
@@ -31,7 +55,7 @@ export async function buildFillPlan(
     const heidiFieldId = await mapEmrFieldToHeidiField(
       emrField,
       heidiSnapshot,
-      `${emrLayout.emrId}:${emrLayout.screenId}`
+      scope
     );
 
     const step: FillPlanStep = {
@@ -39,6 +63,9 @@ export async function buildFillPlan(
       emrLabel: emrField.label,
       emrType: emrField.type,
       heidiFieldId,
+      strategy: chooseFillStrategy(emrField, profile),
+      emrOptions: getFieldOptions(emrField),
+      emrBounds: emrField.boundingBox,
     };
 
     steps.push(step);
@@ -59,10 +86,56 @@ export async function buildFillPlan(
     }
   }
 
-  console.log(`[FILLPLAN] Fill plan built: ${steps.length} steps`);
+  const focusMode = chooseFocusMode(emrLayout, steps, profile.focusMode);
+  console.log(
+    `[FILLPLAN] Fill plan built: ${steps.length} steps (focus by ${focusMode})`
+  );
 
   return {
+    emrId: scope.emrId,
+    screenId: scope.screenId,
     steps,
+    focusMode,
+    imageSize: focusMode === "click" ? emrLayout.imageSize : undefined,
     createdAt: Date.now(),
   };
 }
+
+/**
+ * Record re-mappings made while reviewing a plan as confirmed mappings
+ * Compares the reviewed plan against the plan as originally built
+ */
+export async function recordFillPlanCorrections(
+  original: FillPlan,
+  reviewed: FillPlan
+): Promise<number> {
+  if (!original.emrId || !original.screenId) {
+    return 0;
+  }
+
+  const originalById = new Map<string, FillPlanStep>();
+  original.steps.forEach((step) => originalById.set(step.emrFieldId, step));
+
+  let corrected = 0;
+  for (const step of reviewed.steps) {
+    const before = originalById.get(step.emrFieldId);
+    if (!before || before.heidiFieldId === step.heidiFieldId) {
+      continue;
+    }
+
+    await saveMapping(
+      original.emrId,
+      original.screenId,
+      { id: step.emrFieldId, label: step.emrLabel },
+      step.heidiFieldId,
+      true
+    );
+    corrected++;
+  }
+
+  if (corrected > 0) {
+    console.log(`[FILLPLAN] Recorded ${corrected} mapping correction(s)`);
+  }
+
+  return corrected;
+}
@@ -0,0 +1,303 @@
+import { readFocusedFieldContent } from "../automation/fieldContent";
+import {
+  clickAt,
+  fillField,
+  fillFieldAndTab,
+  pressTab,
+  selectDropdownOption,
+  selectDropdownOptionAndTab,
+  toggleCheckboxAndTab,
+} from "../automation/keyboardFiller";
+import { EmrFormatProfile, getEmrFormatProfile } from "../config/emrProfiles";
+import {
+  HeidiSnapshot,
+  SessionField,
+  SessionFieldFormat,
+} from "../types/agent";
+import {
+  FillPlan,
+  FillPlanExecutionResult,
+  FillPlanStep,
+  FillPlanStepResult,
+} from "../types/fillPlan";
+import { findBestOption, OptionMatch } from "./fillStrategies";
+import { isRichFormat, renderRichText } from "./richText";
+import {
+  formatValueForEmrField,
+  parseCheckboxValue,
+} from "./valueFormatter";
+import { screenshotToScreenPoint } from "./screenshot";
+
+/**
+ * Convert session fields into a Heidi snapshot so they can be mapped by the fill plan builder
+ */
+export function buildSnapshotFromSessionFields(
+  fields: SessionField[]
+): HeidiSnapshot {
+  return {
+    source: "ai",
+    capturedAt: Date.now(),
+    fields: fields.map((field) => ({
+      id: field.id,
+      label: field.label,
+      value: field.value,
+    })),
+  };
+}
+
+/**
+ * Resolve the value a step will type (manual override first, then the mapped session field)
+ * Returns null when the step is skipped or has nothing to type
+ */
+export function resolveStepValue(
+  step: FillPlanStep,
+  fieldsById: Map<string, SessionField>
+): string | null {
+  if (step.action === "skip") {
+    return null;
+  }
+
+  if (step.manualValue) {
+    return step.manualValue;
+  }
+
+  const field = step.heidiFieldId
+    ? fieldsById.get(step.heidiFieldId)
+    : undefined;
+  return field?.value || null;
+}
+
+/**
+ * Format of the session field a step maps to (manual values are plain)
+ */
+function resolveStepFormat(
+  step: FillPlanStep,
+  fieldsById: Map<string, SessionField>
+): SessionFieldFormat | undefined {
+  if (step.manualValue || !step.heidiFieldId) {
+    return undefined;
+  }
+  return fieldsById.get(step.heidiFieldId)?.format;
+}
+
+/**
+ * Screen point at the centre of a step's input box (click mode)
+ */
+function getStepClickPoint(
+  step: FillPlanStep,
+  plan: FillPlan
+): { x: number; y: number } | undefined {
+  if (!step.emrBounds || !plan.imageSize) {
+    return undefined;
+  }
+  return screenshotToScreenPoint(
+    {
+      x: step.emrBounds.x + step.emrBounds.width / 2,
+      y: step.emrBounds.y + step.emrBounds.height / 2,
+    },
+    plan.imageSize
+  );
+}
+
+/**
+ * Enter one step's value with its strategy
+ * Tab mode ends with Tab to the next field; click mode first clicks into the field instead
+ * Dropdowns without a matching option fall back to typing the value
+ * Checkboxes are only ticked for an explicit yes; other values are left for review
+ * Markdown/HTML notes are flattened to plain text; long-text fields also get the
+ * profile's rich clipboard flavor
+ */
+async function fillStep(
+  step: FillPlanStep,
+  value: string,
+  profile: EmrFormatProfile,
+  clickPoint?: { x: number; y: number },
+  format?: SessionFieldFormat
+): Promise<FillPlanStepResult> {
+  const strategy = step.strategy || "type";
+
+  const rendered = isRichFormat(format)
+    ? renderRichText(
+        value,
+        format,
+        step.emrType === "long_text" ? profile.richText : "plain"
+      )
+    : null;
+  const flavors = rendered
+    ? { html: rendered.html, rtf: rendered.rtf }
+    : undefined;
+
+  // Manual values are typed as entered
+  const formatted = step.manualValue
+    ? value
+    : rendered
+    ? rendered.text
+    : formatValueForEmrField(
+        value,
+        { type: step.emrType, label: step.emrLabel },
+        profile
+      );
+
+  if (strategy === "toggle_checkbox") {
+    const checked = parseCheckboxValue(value);
+    // Only an explicit yes ticks the box; anything else is left for the user.
+    // A click toggles, so click mode can't tick a box it hasn't seen unticked
+    const needsReview =
+      checked === null
+        ? `"${value}" isn't a yes or no`
+        : checked && clickPoint
+        ? "Tick this box by hand: its current state isn't known"
+        : undefined;
+
+    if (needsReview) {
+      console.warn(`[FILLPLAN] Leaving "${step.emrLabel}": ${needsReview}`);
+    }
+    if (!clickPoint) {
+      await toggleCheckboxAndTab(!needsReview && checked === true);
+    }
+    return {
+      emrFieldId: step.emrFieldId,
+      emrLabel: step.emrLabel,
+      strategy,
+      value: needsReview ? undefined : checked ? "checked" : "unchecked",
+      needsReview,
+      clickPoint,
+    };
+  }
+
+  if (clickPoint) {
+    await clickAt(clickPoint);
+  }
+
+  if (strategy === "type_ahead" || strategy === "select_option") {
+    const options = step.emrOptions || [];
+    // Try the formatted value (e.g. "M") and the session value (e.g. "Male")
+    const match = [
+      findBestOption(formatted, options),
+      findBestOption(value, options),
+    ].reduce<OptionMatch | null>(
+      (best, candidate) =>
+        candidate && (!best || candidate.score > best.score) ? candidate : best,
+      null
+    );
+
+    if (match && strategy === "select_option") {
+      if (clickPoint) {
+        await selectDropdownOption(match.index, match.option);
+      } else {
+        await selectDropdownOptionAndTab(match.index, match.option);
+      }
+      return {
+        emrFieldId: step.emrFieldId,
+        emrLabel: step.emrLabel,
+        strategy,
+        value: match.option,
+        clickPoint,
+      };
+    }
+
+    const text = match ? match.option : formatted;
+    if (clickPoint) {
+      await fillField(text, profile.typing);
+    } else {
+      await fillFieldAndTab(text, profile.typing);
+    }
+    return {
+      emrFieldId: step.emrFieldId,
+      emrLabel: step.emrLabel,
+      strategy: "type_ahead",
+      value: text,
+      clickPoint,
+    };
+  }
+
+  // Remember what the field held so the step can be undone
+  const priorContent = await readFocusedFieldContent();
+  if (clickPoint) {
+    await fillField(formatted, profile.typing, flavors);
+  } else {
+    await fillFieldAndTab(formatted, profile.typing, flavors);
+  }
+  return {
+    emrFieldId: step.emrFieldId,
+    emrLabel: step.emrLabel,
+    strategy: "type",
+    value: formatted,
+    priorContent,
+    clickPoint,
+  };
+}
+
+/**
+ * Walk a fill plan in tab order, entering each matched value into its field
+ * Tab mode assumes the first EMR field of the form is focused when called;
+ * skipped and unmatched steps (or matched fields without a value) get a bare Tab
+ * Click mode clicks into each field that gets a value and leaves the others alone
+ * Mapped values are formatted for the EMR field type; manual values are typed as entered
+ */
+export async function executeFillPlan(
+  plan: FillPlan,
+  fields: SessionField[]
+): Promise<FillPlanExecutionResult> {
+  console.log(`[FILLPLAN] Executing fill plan: ${plan.steps.length} steps`);
+
+  const fieldsById = new Map<string, SessionField>();
+  fields.forEach((f) => fieldsById.set(f.id, f));
+
+  const profile = getEmrFormatProfile(plan.emrId);
+  const focusMode = plan.focusMode === "click" && plan.imageSize ? "click" : "tab";
+
+  let filledCount = 0;
+  let skippedCount = 0;
+  const stepResults: FillPlanStepResult[] = [];
+
+  for (let i = 0; i < plan.steps.length; i++) {
+    const step = plan.steps[i];
+    const value = resolveStepValue(step, fieldsById);
+    const clickPoint =
+      focusMode === "click" ? getStepClickPoint(step, plan) : undefined;
+
+    if (!value || (focusMode === "click" && !clickPoint)) {
+      console.log(
+        `[FILLPLAN] Step ${i + 1}/${plan.steps.length}: skipping "${
+          step.emrLabel
+        }"${value ? " (no box to click)" : ""}`
+      );
+      if (focusMode === "tab") {
+        await pressTab();
+      }
+      skippedCount++;
+      stepResults.push({
+        emrFieldId: step.emrFieldId,
+        emrLabel: step.emrLabel,
+        strategy: "tab_only",
+      });
+      continue;
+    }
+
+    console.log(
+      `[FILLPLAN] Step ${i + 1}/${plan.steps.length}: "${step.emrLabel}" ← ${
+        step.manualValue ? "manual value" : `"${step.heidiFieldId}"`
+      } (${step.strategy || "type"})`
+    );
+    const stepResult = await fillStep(
+      step,
+      value,
+      profile,
+      clickPoint,
+      resolveStepFormat(step, fieldsById)
+    );
+    stepResults.push(stepResult);
+    if (stepResult.needsReview) {
+      skippedCount++;
+    } else {
+      filledCount++;
+    }
+  }
+
+  console.log(
+    `[FILLPLAN] Fill plan completed: ${filledCount} filled, ${skippedCount} skipped`
+  );
+
+  return { filledCount, skippedCount, focusMode, steps: stepResults };
+}
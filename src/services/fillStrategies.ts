@@ -0,0 +1,120 @@
+import { EmrFormatProfile } from "../config/emrProfiles";
+import { EmrField } from "../types/emr";
+import { FillStrategy } from "../types/fillPlan";
+import { normalizeLabel } from "./emrFingerprint";
+
+const MIN_OPTION_SCORE = 0.5;
+
+/**
+ * Best dropdown option for a value, with its position in the option list
+ */
+export interface OptionMatch {
+  option: string;
+  index: number;
+  score: number;
+}
+
+/**
+ * Dropdown options known for a field (select fields only, from layout examples)
+ */
+export function getFieldOptions(emrField: EmrField): string[] | undefined {
+  if (emrField.type !== "select" || !emrField.examples) {
+    return undefined;
+  }
+  const options = emrField.examples.filter((option) => option.trim());
+  return options.length > 0 ? options : undefined;
+}
+
+/**
+ * Pick how a field will be filled
+ * Dropdowns only open and pick an option when the EMR profile asks for it and
+ * the full option list is known; otherwise they fall back to type-ahead
+ */
+export function chooseFillStrategy(
+  emrField: EmrField,
+  profile: EmrFormatProfile
+): FillStrategy {
+  switch (emrField.type) {
+    case "checkbox":
+      return "toggle_checkbox";
+    case "select": {
+      const options = getFieldOptions(emrField);
+      return profile.selectStrategy === "select_option" &&
+        options &&
+        options.length > 1
+        ? "select_option"
+        : "type_ahead";
+    }
+    default:
+      return "type";
+  }
+}
+
+const EXACT_SCORE = 1;
+const WHOLE_WORDS_SCORE = 0.8; // "Victoria" → "VIC - Victoria"
+const INITIALS_SCORE = 0.6; // "M" → "Male"
+const MAX_OVERLAP_SCORE = 0.55; // Partial word overlap ranks below every rule above
+
+/**
+ * Score how well an option matches a value (0-1), on whole words only
+ * so that "no" doesn't match "None known" and "male" doesn't match "Female"
+ */
+function scoreOption(value: string, option: string): number {
+  const a = normalizeLabel(value);
+  const b = normalizeLabel(option);
+  if (!a || !b) {
+    return 0;
+  }
+  if (a === b) {
+    return EXACT_SCORE;
+  }
+
+  const aWords = a.split(" ");
+  const bWords = b.split(" ");
+  if (
+    aWords.every((word) => bWords.includes(word)) ||
+    bWords.every((word) => aWords.includes(word))
+  ) {
+    return WHOLE_WORDS_SCORE;
+  }
+
+  // Single letters stand for the word they start
+  if (
+    aWords.every(
+      (word) =>
+        bWords.includes(word) ||
+        (word.length === 1 && bWords.some((other) => other.startsWith(word)))
+    )
+  ) {
+    return INITIALS_SCORE;
+  }
+
+  // Word overlap (Jaccard)
+  const aSet = new Set(aWords);
+  const bSet = new Set(bWords);
+  const shared = [...aSet].filter((word) => bSet.has(word)).length;
+  return Math.min(
+    shared / (aSet.size + bSet.size - shared),
+    MAX_OVERLAP_SCORE
+  );
+}
+
+/**
+ * Fuzzy-match a value against dropdown options
+ * Returns null when no option is a reasonable match
+ */
+export function findBestOption(
+  value: string,
+  options: string[]
+): OptionMatch | null {
+  let best: OptionMatch | null = null;
+
+  options.forEach((option, index) => {
+    const score = scoreOption(value, option);
+    if (score >= MIN_OPTION_SCORE && (!best || score > best.score)) {
+      best = { option, index, score };
+    }
+  });
+
+  return best;
+}
@@ -0,0 +1,234 @@
+import sharp from "sharp";
+import { Rect } from "../types/agent";
+import {
+  FillPlan,
+  FillPlanExecutionResult,
+  FillPlanStepResult,
+  FillStepVerification,
+} from "../types/fillPlan";
+import { recognize } from "./ocr";
+import { captureFullScreen, captureRegion } from "./screenshot";
+
+const MATCH_THRESHOLD = 0.85; // Similarity accepted as the same text (OCR noise)
+const OCR_SCALE = 3; // Input boxes are small; upscale before OCR
+const BOX_PADDING = 4;
+
+// Digit runs, with the "/", "." and "-" inside them (doses, dates, phone numbers)
+const NUMBER_PATTERN = /\d(?:[\d/.-]*\d)?/g;
+
+/**
+ * Text split for comparison: numbers must match exactly, letters may differ by OCR noise
+ */
+interface ComparableText {
+  letters: string;
+  numbers: string[];
+}
+
+/**
+ * Read O and l as 0 and 1 inside tokens that are otherwise numeric ("l2/O3/198O")
+ * Digits are never folded into letters, so "5mg" and "50mg" stay different
+ */
+function foldNumericToken(token: string): string {
+  if (!/\d/.test(token) || !/^[\dol|i/.,:-]+$/.test(token)) {
+    return token;
+  }
+  return token.replace(/o/g, "0").replace(/[l|i]/g, "1");
+}
+
+/**
+ * Normalize text for comparison, separating its numbers from its letters
+ */
+function toComparable(text: string): ComparableText {
+  const folded = text
+    .toLowerCase()
+    .split(/\s+/)
+    .map(foldNumericToken)
+    .join(" ");
+
+  return {
+    numbers: folded.match(NUMBER_PATTERN) || [],
+    letters: folded
+      .replace(NUMBER_PATTERN, " ")
+      .replace(/[|!]/g, "l")
+      .replace(/[^a-z]+/g, " ")
+      .trim(),
+  };
+}
+
+/**
+ * Levenshtein similarity (0-1)
+ */
+function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (!a.length || !b.length) return 0;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return 1 - previous[b.length] / Math.max(a.length, b.length);
+}
+
+/**
+ * Compare the intended value to what OCR read back from the field
+ * Numbers must match exactly; the Levenshtein threshold only applies to the letters
+ * Multi-line fields only show their first lines, so a matching start counts as verified
+ */
+export function compareFieldText(
+  expected: string,
+  ocrText: string,
+  isLongText: boolean = false
+): FillStepVerification {
+  const want = toComparable(expected);
+  const got = toComparable(ocrText);
+
+  if (!got.letters && got.numbers.length === 0) {
+    return { status: "empty", ocrText, similarity: 0 };
+  }
+
+  const score =
+    !want.letters && !got.letters ? 1 : similarity(want.letters, got.letters);
+  const numbersMatch = want.numbers.join(" ") === got.numbers.join(" ");
+  if (numbersMatch && score >= MATCH_THRESHOLD) {
+    return { status: "verified", ocrText, similarity: score };
+  }
+
+  // Does the field show the start of the value? (its numbers exactly, its letters roughly)
+  const shownNumbers = want.numbers.slice(0, got.numbers.length);
+  const prefixScore = got.letters
+    ? similarity(want.letters.slice(0, got.letters.length), got.letters)
+    : 1;
+  const isShorter =
+    got.letters.length < want.letters.length ||
+    got.numbers.length < want.numbers.length;
+  if (
+    isShorter &&
+    shownNumbers.join(" ") === got.numbers.join(" ") &&
+    prefixScore >= MATCH_THRESHOLD
+  ) {
+    return {
+      status: isLongText ? "verified" : "truncated",
+      ocrText,
+      similarity: score,
+    };
+  }
+
+  return {
+    status: "mismatch",
+    ocrText,
+    similarity: numbersMatch ? score : 0,
+  };
+}
+
+/**
+ * OCR one field's box from a full-screen capture
+ */
+async function readFieldText(bounds: Rect, screenshot: Buffer): Promise<string> {
+  const region = await captureRegion(
+    {
+      x: bounds.x - BOX_PADDING,
+      y: bounds.y - BOX_PADDING,
+      width: bounds.width + BOX_PADDING * 2,
+      height: bounds.height + BOX_PADDING * 2,
+    },
+    screenshot
+  );
+
+  const { width = bounds.width } = await sharp(region).metadata();
+  const upscaled = await sharp(region)
+    .resize({ width: Math.round(width * OCR_SCALE) })
+    .grayscale()
+    .png()
+    .toBuffer();
+
+  const result = await recognize(upscaled);
+  return result.plainText.trim();
+}
+
+/**
+ * Re-capture the EMR after a fill plan run and OCR each typed field's box
+ * Adds a verification to every step result and counts the mismatches
+ */
+export async function verifyFillResult(
+  plan: FillPlan,
+  result: FillPlanExecutionResult
+): Promise<FillPlanExecutionResult> {
+  const stepsById = new Map(plan.steps.map((step) => [step.emrFieldId, step]));
+  const toVerify = result.steps.filter((stepResult) => {
+    const step = stepsById.get(stepResult.emrFieldId);
+    return (
+      stepResult.value &&
+      step?.emrBounds &&
+      (stepResult.strategy === "type" || stepResult.strategy === "type_ahead")
+    );
+  });
+
+  if (toVerify.length === 0) {
+    return result;
+  }
+
+  console.log(`[VERIFY] Verifying ${toVerify.length} filled field(s)`);
+
+  let screenshot: Buffer;
+  try {
+    screenshot = await captureFullScreen();
+  } catch (error) {
+    console.warn("[VERIFY] Could not re-capture screen:", error);
+    return result;
+  }
+
+  let mismatchCount = 0;
+  const steps: FillPlanStepResult[] = [];
+
+  for (const stepResult of result.steps) {
+    if (stepResult.strategy === "tab_only") {
+      steps.push(stepResult);
+      continue;
+    }
+    if (!toVerify.includes(stepResult)) {
+      steps.push({ ...stepResult, verification: { status: "unverified" } });
+      continue;
+    }
+
+    const step = stepsById.get(stepResult.emrFieldId)!;
+    let verification: FillStepVerification;
+    try {
+      const ocrText = await readFieldText(step.emrBounds!, screenshot);
+      verification = compareFieldText(
+        stepResult.value!,
+        ocrText,
+        step.emrType === "long_text"
+      );
+    } catch (error) {
+      console.warn(`[VERIFY] OCR failed for "${step.emrLabel}":`, error);
+      verification = { status: "unverified" };
+    }
+
+    if (
+      verification.status !== "verified" &&
+      verification.status !== "unverified"
+    ) {
+      mismatchCount++;
+      console.warn(
+        `[VERIFY] "${step.emrLabel}" ${verification.status}: expected "${stepResult.value}", read "${verification.ocrText}"`
+      );
+    }
+
+    steps.push({ ...stepResult, verification });
+  }
+
+  console.log(
+    `[VERIFY] Verification complete: ${mismatchCount} field(s) need attention`
+  );
+
+  return { ...result, steps, mismatchCount };
+}
@@ -1,5 +1,6 @@
 import axios, { AxiosError } from "axios";
 import { getHeidiConfig } from "../config/heidiConfig";
+import { readAnswerStream, withIdleTimeout } from "./askHeidiStream";
 import {
   HeidiApiResponse,
   HeidiAskHeidiRequest,
@@ -36,6 +37,7 @@ interface HeidiRequestOptions {
   path: string;
   params?: Record<string, any>;
   data?: any;
+  responseType?: "stream"; // Resolve with the response body as a Node stream
 }
 
 /**
@@ -215,6 +217,20 @@ async function heidiRequest<T = any>(
       timeout: 10000, // 10 second timeout
     };
 
+    if (options.responseType) {
+      requestConfig.responseType = options.responseType;
+    }
+
+    // A timeout would also cap reading a streamed body, so streams only get it until
+    // the response starts (gaps between chunks are timed by the reader)
+    let streamTimer: NodeJS.Timeout | undefined;
+    if (options.responseType === "stream") {
+      const controller = new AbortController();
+      streamTimer = setTimeout(() => controller.abort(), requestConfig.timeout);
+      requestConfig.signal = controller.signal;
+      requestConfig.timeout = 0;
+    }
+
     // Add query params for GET requests
     if (options.params) {
       requestConfig.params = options.params;
@@ -239,7 +255,9 @@ async function heidiRequest<T = any>(
       console.log(`[HEIDI] ${options.method} ${url}`);
     }
 
-    const response = await axios(requestConfig);
+    const response = await axios(requestConfig).finally(() =>
+      clearTimeout(streamTimer)
+    );
 
     return {
       ok: true,
@@ -256,7 +274,9 @@ async function heidiRequest<T = any>(
           error: `Heidi API error: ${axiosError.response.status} ${
             axiosError.response.statusText
           } - ${
-            typeof axiosError.response.data === "string"
+            options.responseType === "stream"
+              ? "(streamed response)" // The body is an unread stream
+              : typeof axiosError.response.data === "string"
               ? axiosError.response.data
               : JSON.stringify(axiosError.response.data)
           }`,
@@ -495,6 +515,20 @@ export async function getSessionDocuments(
   });
 }
 
+/**
+ * Get one document of a session (used to poll a document while it generates)
+ * GET /sessions/{session_id}/documents/{document_id}
+ */
+export async function getDocument(
+  sessionId: string,
+  documentId: string
+): Promise<HeidiApiResponse<HeidiDocument>> {
+  return heidiRequest<HeidiDocument>({
+    method: "GET",
+    path: `/sessions/${sessionId}/documents/${documentId}`,
+  });
+}
+
 /**
  * Fetch documents for a session (alias for getSessionDocuments)
  * @deprecated Use getSessionDocuments instead
@@ -523,3 +557,43 @@ export async function askHeidi(
     data: request,
   });
 }
+
+const STREAM_IDLE_TIMEOUT_MS = 30000; // Longest wait for the next piece of an answer
+
+/**
+ * Ask Heidi a question and stream the answer
+ * POST /ask-heidi with `stream: true`; `onText` gets each piece of the answer as it arrives
+ */
+export async function askHeidiStream(
+  request: HeidiAskHeidiRequest,
+  onText: (text: string) => void
+): Promise<HeidiApiResponse<HeidiAskHeidiResponse>> {
+  const response = await heidiRequest<AsyncIterable<Buffer>>({
+    method: "POST",
+    path: `/ask-heidi`,
+    data: { ...request, stream: true },
+    responseType: "stream",
+  });
+  if (!response.ok || !response.data) {
+    return { ok: false, error: response.error, status: response.status };
+  }
+
+  try {
+    const answer = await readAnswerStream(
+      withIdleTimeout(response.data, STREAM_IDLE_TIMEOUT_MS),
+      onText
+    );
+    return {
+      ok: true,
+      data: { answer, session_id: request.session_id },
+      status: response.status,
+    };
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return {
+      ok: false,
+      error: `Heidi API stream interrupted: ${errorMessage}`,
+    };
+  }
+}
@@ -0,0 +1,275 @@
+import { CodeSystem, SessionCode, SessionField } from "../types/agent";
+import {
+  HeidiCoding,
+  HeidiConsultNote,
+  HeidiDocument,
+  HeidiSession,
+} from "../types/heidi";
+import {
+  getSession,
+  getSessionCoding,
+  getSessionConsultNotes,
+  getSessionDocuments,
+} from "./heidiApiClient";
+import { splitConsultNote } from "./consultNoteSections";
+import { parseContentFormat } from "./richText";
+
+/**
+ * Everything the importer reads for one Heidi session
+ * Only the session itself is required; the other endpoints may be missing or empty
+ */
+export interface HeidiSessionData {
+  session: HeidiSession;
+  consultNotes?: HeidiConsultNote | HeidiConsultNote[];
+  documents?: HeidiDocument[];
+  coding?: HeidiCoding;
+}
+
+/**
+ * A Heidi session as session fields, plus its codes for the code picker
+ */
+export interface ImportedHeidiSession {
+  fields: SessionField[];
+  codes: SessionCode[];
+}
+
+const CODE_LISTS: Array<{
+  key: keyof HeidiCoding;
+  system: CodeSystem;
+  label: string;
+}> = [
+  { key: "icd_codes", system: "icd", label: "ICD" },
+  { key: "cpt_codes", system: "cpt", label: "CPT" },
+  { key: "diagnosis_codes", system: "diagnosis", label: "Diagnosis" },
+];
+
+function toFieldId(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+function asText(value: unknown): string {
+  return typeof value === "string" || typeof value === "number"
+    ? String(value).trim()
+    : "";
+}
+
+/**
+ * Session fields from the session record: name, gist and patient details
+ */
+function sessionRecordFields(session: HeidiSession): SessionField[] {
+  const patient = session.patient || {};
+  return [
+    { id: "session_name", label: "Session name", value: session.session_name },
+    { id: "session_gist", label: "Session gist", value: session.session_gist },
+    { id: "patient_name", label: "Patient Name", value: patient.name },
+    {
+      id: "date_of_birth",
+      label: "Date of Birth",
+      value: patient.dob || patient.birth_date,
+    },
+    { id: "gender", label: "Gender", value: patient.gender },
+  ].map((field) => ({ ...field, value: asText(field.value) }));
+}
+
+/**
+ * The consult note, preferring the consult-notes endpoint over the copy on the session,
+ * followed by one field per note section (History, Examination, Plan, ...)
+ * Heidi writes consult notes in markdown unless the response says otherwise
+ */
+function consultNoteFields(
+  session: HeidiSession,
+  consultNotes?: HeidiConsultNote | HeidiConsultNote[]
+): SessionField[] {
+  const notes = Array.isArray(consultNotes)
+    ? consultNotes
+    : consultNotes
+    ? [consultNotes]
+    : [];
+  const note = notes.find((n) => asText(n.content));
+  const embedded = session.consult_note || {};
+
+  const content = note ? asText(note.content) : asText(embedded.result);
+  const format = parseContentFormat(
+    (note ? note.format : embedded.format) || "MARKDOWN"
+  );
+
+  return [
+    {
+      id: "consult_note_heading",
+      label: "Consult note heading",
+      value: asText(embedded.heading),
+    },
+    { id: "consult_note", label: "Consult note", value: content, format },
+    ...splitConsultNote(content, format),
+  ];
+}
+
+/**
+ * One field per generated document, keyed by its name (or tab type) so ids are stable
+ */
+function documentFields(documents: HeidiDocument[] = []): SessionField[] {
+  const fields: SessionField[] = [];
+  const usedIds = new Set<string>();
+
+  documents.forEach((document, index) => {
+    const label =
+      asText(document.name) ||
+      asText(document.title) ||
+      asText(document.document_tab_type) ||
+      `Document ${index + 1}`;
+
+    let id = `document_${toFieldId(label) || index + 1}`;
+    for (let n = 2; usedIds.has(id); n++) {
+      id = `document_${toFieldId(label)}_${n}`;
+    }
+    usedIds.add(id);
+
+    fields.push({
+      id,
+      label,
+      value: asText(document.content),
+      format: parseContentFormat(document.content_type),
+    });
+  });
+
+  return fields;
+}
+
+/**
+ * Codes from every coding list, in list order (entries without a code are dropped)
+ */
+export function buildSessionCodes(coding?: HeidiCoding): SessionCode[] {
+  if (!coding) {
+    return [];
+  }
+
+  return CODE_LISTS.flatMap(({ key, system }) => {
+    const entries: Array<{ code?: string; description?: string }> =
+      Array.isArray(coding[key]) ? coding[key] : [];
+    return entries
+      .filter((entry) => asText(entry.code))
+      .map((entry) => ({
+        system,
+        code: asText(entry.code),
+        description: asText(entry.description) || undefined,
+      }));
+  });
+}
+
+/**
+ * "CODE - description", or the bare code when there is no description
+ */
+export function formatSessionCode(
+  code: SessionCode,
+  includeDescription: boolean = true
+): string {
+  return includeDescription && code.description
+    ? `${code.code} - ${code.description}`
+    : code.code;
+}
+
+/**
+ * Coding as session fields: one list field per system ("CODE - description" lines),
+ * then code, description and "CODE - description" fields for each code
+ */
+function codingFields(codes: SessionCode[]): SessionField[] {
+  return CODE_LISTS.flatMap(({ system, label }) => {
+    const systemCodes = codes.filter((code) => code.system === system);
+    if (systemCodes.length === 0) {
+      return [];
+    }
+
+    const fields: SessionField[] = [
+      {
+        id: `${system}_codes`,
+        label: `${label} codes`,
+        value: systemCodes.map((code) => formatSessionCode(code)).join("\n"),
+      },
+    ];
+    systemCodes.forEach((code, index) => {
+      const n = index + 1;
+      fields.push(
+        {
+          id: `${system}_${n}_code`,
+          label: `${label} code ${n}`,
+          value: code.code,
+        },
+        {
+          id: `${system}_${n}_description`,
+          label: `${label} description ${n}`,
+          value: code.description || "",
+        },
+        {
+          id: `${system}_${n}`,
+          label: `${label} ${n}`,
+          value: formatSessionCode(code),
+        }
+      );
+    });
+    return fields;
+  });
+}
+
+/**
+ * Convert a Heidi session's API data into session fields (fields without a value are dropped)
+ */
+export function buildSessionFieldsFromHeidi(
+  data: HeidiSessionData
+): SessionField[] {
+  // GET /sessions/{id} wraps the record in { session: {...} }
+  const session: HeidiSession = data.session.session || data.session;
+
+  return [
+    ...sessionRecordFields(session),
+    ...consultNoteFields(session, data.consultNotes),
+    ...documentFields(data.documents),
+    ...codingFields(buildSessionCodes(data.coding)),
+  ]
+    .filter((field) => field.value)
+    .map((field) => ({ ...field, source: "heidi" as const }));
+}
+
+/**
+ * Fetch a Heidi session (record, consult notes, documents and coding) as session fields
+ * Throws when the session itself can't be read; the other endpoints are optional
+ */
+export async function importHeidiSession(
+  sessionId: string
+): Promise<ImportedHeidiSession> {
+  console.log(`[HEIDI] Importing session ${sessionId}`);
+
+  const [session, consultNotes, documents, coding] = await Promise.all([
+    getSession(sessionId),
+    getSessionConsultNotes(sessionId),
+    getSessionDocuments(sessionId),
+    getSessionCoding(sessionId),
+  ]);
+
+  if (!session.ok || !session.data) {
+    throw new Error(session.error || `Heidi session ${sessionId} not found`);
+  }
+
+  const optional = { consultNotes, documents, coding };
+  for (const [name, result] of Object.entries(optional)) {
+    if (!result.ok) {
+      console.warn(`[HEIDI] Skipping ${name} for ${sessionId}: ${result.error}`);
+    }
+  }
+
+  const fields = buildSessionFieldsFromHeidi({
+    session: session.data,
+    consultNotes: consultNotes.ok ? consultNotes.data : undefined,
+    documents: documents.ok && Array.isArray(documents.data) ? documents.data : [],
+    coding: coding.ok ? coding.data : undefined,
+  });
+
+  const codes = buildSessionCodes(coding.ok ? coding.data : undefined);
+
+  console.log(
+    `[HEIDI] Imported ${fields.length} fields and ${codes.length} codes from session ${sessionId}`
+  );
+  return { fields, codes };
+}
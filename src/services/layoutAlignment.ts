@@ -0,0 +1,102 @@
+import { Rect } from "../types/agent";
+import { EmrField, EmrLayout } from "../types/emr";
+import { normalizeLabel } from "./emrFingerprint";
+import { OcrResult } from "./ocr";
+
+/**
+ * Find the OCR line that best matches a field label (the shortest line containing it)
+ */
+function findLabelLine(label: string, ocr: OcrResult): Rect | null {
+  const wanted = normalizeLabel(label);
+  if (!wanted) {
+    return null;
+  }
+
+  let best: { bounds: Rect; length: number } | null = null;
+  for (const block of ocr.blocks) {
+    if (!block.bounds) {
+      continue;
+    }
+    const text = normalizeLabel(block.text);
+    if (!` ${text} `.includes(` ${wanted} `)) {
+      continue;
+    }
+    if (!best || text.length < best.length) {
+      best = { bounds: block.bounds, length: text.length };
+    }
+  }
+
+  return best ? best.bounds : null;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2
+    ? sorted[mid]
+    : Math.round((sorted[mid - 1] + sorted[mid]) / 2);
+}
+
+function translate(rect: Rect, dx: number, dy: number): Rect {
+  return { ...rect, x: rect.x + dx, y: rect.y + dy };
+}
+
+/**
+ * Record where each field's label sits on screen so a reused layout can be re-aligned
+ */
+export function attachLabelBounds(
+  fields: EmrField[],
+  ocr: OcrResult
+): EmrField[] {
+  return fields.map((field) => {
+    const labelBounds = findLabelLine(field.label, ocr);
+    return labelBounds ? { ...field, labelBounds } : field;
+  });
+}
+
+/**
+ * Shift a stored layout's boxes to where its labels are on the current screen
+ * The window may have moved (or been pushed aside by the panel) since the layout was analyzed
+ * Uses the median label offset so a few misread labels don't drag the whole form
+ */
+export function alignLayoutToScreen(
+  layout: EmrLayout,
+  ocr: OcrResult
+): EmrLayout {
+  const dxs: number[] = [];
+  const dys: number[] = [];
+
+  for (const field of layout.fields) {
+    if (!field.labelBounds) {
+      continue;
+    }
+    const current = findLabelLine(field.label, ocr);
+    if (current) {
+      dxs.push(current.x - field.labelBounds.x);
+      dys.push(current.y - field.labelBounds.y);
+    }
+  }
+
+  if (dxs.length === 0) {
+    return layout;
+  }
+
+  const dx = median(dxs);
+  const dy = median(dys);
+  if (dx === 0 && dy === 0) {
+    return layout;
+  }
+
+  console.log(`[EMR] Stored layout shifted by ${dx},${dy} to match the screen`);
+
+  return {
+    ...layout,
+    fields: layout.fields.map((field) => ({
+      ...field,
+      boundingBox: translate(field.boundingBox, dx, dy),
+      labelBounds: field.labelBounds
+        ? translate(field.labelBounds, dx, dy)
+        : undefined,
+    })),
+  };
+}
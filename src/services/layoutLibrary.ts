@@ -0,0 +1,187 @@
+import { EmrLayout, EmrLayoutBundle } from "../types/emr";
+import {
+  getConfirmedMappings,
+  importConfirmedMappings,
+  isEmrScreenMappings,
+} from "./mappingStore";
+import { readUserDataJson, writeUserDataJson } from "./userDataFile";
+
+/**
+ * On-disk format: `${emrId}:${screenId}` → layout
+ */
+interface LayoutLibraryFile {
+  version: 1;
+  layouts: Record<string, EmrLayout>;
+}
+
+const LIBRARY_FILE_NAME = "emr-layouts.json";
+const BUNDLE_FORMAT = "heidi-cursor-layout-bundle";
+const BUNDLE_VERSION = 1;
+
+let library: LayoutLibraryFile | null = null;
+
+/**
+ * A layout as stored and shared: select fields keep their option lists, but other
+ * fields drop `examples`, which are values read off the analyzed screen (patient data)
+ */
+function toStoredLayout(layout: EmrLayout): EmrLayout {
+  return {
+    ...layout,
+    fields: layout.fields.map(({ examples, ...field }) =>
+      field.type === "select" && examples ? { ...field, examples } : field
+    ),
+  };
+}
+
+/**
+ * Load the library from disk (once per process)
+ */
+function loadLibrary(): LayoutLibraryFile {
+  if (library) {
+    return library;
+  }
+
+  const parsed = readUserDataJson(LIBRARY_FILE_NAME) as LayoutLibraryFile | null;
+  if (parsed && parsed.version === 1 && typeof parsed.layouts === "object") {
+    library = {
+      version: 1,
+      layouts: Object.fromEntries(
+        Object.entries(parsed.layouts).map(([key, layout]) => [
+          key,
+          toStoredLayout(layout),
+        ])
+      ),
+    };
+    console.log(
+      `[LAYOUTS] Loaded ${Object.keys(library.layouts).length} layouts`
+    );
+    return library;
+  }
+
+  if (parsed) {
+    console.warn("[LAYOUTS] Ignoring layout library with unknown format");
+  }
+
+  library = { version: 1, layouts: {} };
+  return library;
+}
+
+/**
+ * Write the library to disk
+ */
+async function persistLibrary(): Promise<void> {
+  await writeUserDataJson(LIBRARY_FILE_NAME, loadLibrary());
+}
+
+/**
+ * Whether a value looks like an EmrLayout
+ */
+function isEmrLayout(value: any): value is EmrLayout {
+  return (
+    value &&
+    typeof value.emrId === "string" &&
+    typeof value.screenId === "string" &&
+    Array.isArray(value.fields) &&
+    value.fields.every(
+      (f: any) =>
+        f &&
+        typeof f.id === "string" &&
+        typeof f.label === "string" &&
+        typeof f.type === "string" &&
+        f.boundingBox &&
+        typeof f.boundingBox.x === "number" &&
+        typeof f.boundingBox.y === "number" &&
+        typeof f.boundingBox.width === "number" &&
+        typeof f.boundingBox.height === "number"
+    )
+  );
+}
+
+/**
+ * All stored layouts, optionally limited to one EMR
+ */
+export function getLayouts(emrId?: string): EmrLayout[] {
+  return Object.values(loadLibrary().layouts).filter(
+    (layout) => !emrId || layout.emrId === emrId
+  );
+}
+
+/**
+ * Add or replace a layout in the library
+ */
+export async function saveLayout(layout: EmrLayout): Promise<void> {
+  loadLibrary().layouts[`${layout.emrId}:${layout.screenId}`] =
+    toStoredLayout(layout);
+  await persistLibrary();
+}
+
+/**
+ * Remove every stored layout
+ */
+export async function clearLayouts(): Promise<void> {
+  loadLibrary().layouts = {};
+  await persistLibrary();
+}
+
+/**
+ * Build a shareable bundle with an EMR's layouts and confirmed mappings
+ */
+export function exportLayoutBundle(emrId: string): EmrLayoutBundle {
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    emrId,
+    exportedAt: Date.now(),
+    layouts: getLayouts(emrId).map(toStoredLayout),
+    mappings: getConfirmedMappings(emrId),
+  };
+}
+
+/**
+ * Import a bundle exported by exportLayoutBundle
+ * Layouts and mappings from the bundle replace local ones with the same keys
+ */
+export async function importLayoutBundle(
+  bundle: unknown
+): Promise<{ emrId: string; layoutCount: number; mappingCount: number }> {
+  const candidate = bundle as Partial<EmrLayoutBundle> | null;
+
+  if (!candidate || candidate.format !== BUNDLE_FORMAT) {
+    throw new Error("Not a Heidi Cursor layout bundle.");
+  }
+
+  if (candidate.version !== BUNDLE_VERSION) {
+    throw new Error(
+      `Unsupported layout bundle version: ${candidate.version}. Expected ${BUNDLE_VERSION}.`
+    );
+  }
+
+  if (
+    typeof candidate.emrId !== "string" ||
+    !Array.isArray(candidate.layouts) ||
+    !candidate.layouts.every(isEmrLayout) ||
+    !isEmrScreenMappings(candidate.mappings)
+  ) {
+    throw new Error("Layout bundle is malformed.");
+  }
+
+  const emrId = candidate.emrId;
+  const current = loadLibrary();
+  for (const layout of candidate.layouts) {
+    // Layouts always belong to the bundle's EMR
+    const imported = toStoredLayout({ ...layout, emrId });
+    current.layouts[`${emrId}:${imported.screenId}`] = imported;
+  }
+  await persistLibrary();
+
+  const mappingCount = await importConfirmedMappings(
+    emrId,
+    candidate.mappings
+  );
+
+  console.log(
+    `[LAYOUTS] Imported bundle for ${emrId}: ${candidate.layouts.length} layouts, ${mappingCount} mappings`
+  );
+
+  return { emrId, layoutCount: candidate.layouts.length, mappingCount };
+}
@@ -0,0 +1,207 @@
+import { HeidiFieldId } from "../types/agent";
+import { EmrField, EmrScreenMappings, StoredMapping } from "../types/emr";
+import { normalizeLabel } from "./emrFingerprint";
+import { readUserDataJson, writeUserDataJson } from "./userDataFile";
+
+/**
+ * On-disk format: emrId → screenId → emrFieldId → mapping
+ */
+interface MappingStoreFile {
+  version: 1;
+  emrs: Record<string, EmrScreenMappings>;
+}
+
+const STORE_FILE_NAME = "emr-mappings.json";
+
+let store: MappingStoreFile | null = null;
+
+/**
+ * Load the store from disk (once per process)
+ */
+function loadStore(): MappingStoreFile {
+  if (store) {
+    return store;
+  }
+
+  const parsed = readUserDataJson(STORE_FILE_NAME) as MappingStoreFile | null;
+  if (parsed && parsed.version === 1 && typeof parsed.emrs === "object") {
+    store = parsed;
+    console.log("[MAPPINGS] Loaded mapping store");
+    return store;
+  }
+
+  if (parsed) {
+    console.warn("[MAPPINGS] Ignoring mapping store with unknown format");
+  }
+
+  store = { version: 1, emrs: {} };
+  return store;
+}
+
+/**
+ * Write the store to disk
+ */
+async function persistStore(): Promise<void> {
+  await writeUserDataJson(STORE_FILE_NAME, loadStore());
+}
+
+/**
+ * Look up a remembered mapping for an EMR field
+ * Exact screen matches win; otherwise a confirmed mapping for the same label
+ * on another screen of the same EMR is reused
+ */
+export function getStoredMapping(
+  emrId: string,
+  screenId: string,
+  emrField: Pick<EmrField, "id" | "label">
+): StoredMapping | null {
+  const screens = loadStore().emrs[emrId];
+  if (!screens) {
+    return null;
+  }
+
+  const exact = screens[screenId]?.[emrField.id];
+  if (exact) {
+    return exact;
+  }
+
+  const label = normalizeLabel(emrField.label);
+  let best: StoredMapping | null = null;
+  for (const fields of Object.values(screens)) {
+    for (const mapping of Object.values(fields)) {
+      if (
+        mapping.confirmed &&
+        normalizeLabel(mapping.emrLabel) === label &&
+        (!best || mapping.updatedAt > best.updatedAt)
+      ) {
+        best = mapping;
+      }
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Remember a mapping for an EMR field
+ * Automatic mappings never overwrite a confirmed one
+ */
+export async function saveMapping(
+  emrId: string,
+  screenId: string,
+  emrField: Pick<EmrField, "id" | "label">,
+  heidiFieldId: HeidiFieldId | null,
+  confirmed: boolean
+): Promise<void> {
+  const current = loadStore();
+  const screens = (current.emrs[emrId] = current.emrs[emrId] || {});
+  const fields = (screens[screenId] = screens[screenId] || {});
+
+  const existing = fields[emrField.id];
+  if (existing?.confirmed && !confirmed) {
+    return;
+  }
+
+  fields[emrField.id] = {
+    emrLabel: emrField.label,
+    heidiFieldId,
+    confirmed,
+    updatedAt: Date.now(),
+  };
+
+  if (confirmed) {
+    console.log(
+      `[MAPPINGS] Confirmed mapping: ${emrId}:${screenId} "${
+        emrField.label
+      }" → ${heidiFieldId || "none"}`
+    );
+  }
+
+  await persistStore();
+}
+
+/**
+ * Drop automatically learned mappings, keeping the ones users confirmed
+ */
+export async function clearUnconfirmedMappings(): Promise<void> {
+  const current = loadStore();
+  for (const screens of Object.values(current.emrs)) {
+    for (const fields of Object.values(screens)) {
+      for (const [emrFieldId, mapping] of Object.entries(fields)) {
+        if (!mapping.confirmed) {
+          delete fields[emrFieldId];
+        }
+      }
+    }
+  }
+  await persistStore();
+}
+
+/**
+ * Confirmed mappings for an EMR (used for layout bundle export)
+ */
+export function getConfirmedMappings(emrId: string): EmrScreenMappings {
+  const screens = loadStore().emrs[emrId] || {};
+  const confirmed: EmrScreenMappings = {};
+
+  for (const [screenId, fields] of Object.entries(screens)) {
+    for (const [emrFieldId, mapping] of Object.entries(fields)) {
+      if (mapping.confirmed) {
+        confirmed[screenId] = confirmed[screenId] || {};
+        confirmed[screenId][emrFieldId] = mapping;
+      }
+    }
+  }
+
+  return confirmed;
+}
+
+/**
+ * Whether a value looks like EmrScreenMappings (screenId → emrFieldId → mapping)
+ */
+export function isEmrScreenMappings(value: any): value is EmrScreenMappings {
+  const isObject = (v: any) => !!v && typeof v === "object" && !Array.isArray(v);
+  return (
+    isObject(value) &&
+    Object.values(value).every(
+      (fields: any) =>
+        isObject(fields) &&
+        Object.values(fields).every(
+          (mapping: any) =>
+            isObject(mapping) &&
+            typeof mapping.emrLabel === "string" &&
+            (typeof mapping.heidiFieldId === "string" ||
+              mapping.heidiFieldId === null) &&
+            typeof mapping.updatedAt === "number"
+        )
+    )
+  );
+}
+
+/**
+ * Merge imported mappings for an EMR as confirmed mappings
+ * Imported mappings replace local ones for the same field
+ */
+export async function importConfirmedMappings(
+  emrId: string,
+  mappings: EmrScreenMappings
+): Promise<number> {
+  if (!isEmrScreenMappings(mappings)) {
+    throw new Error("Mappings are malformed.");
+  }
+
+  const current = loadStore();
+  const screens = (current.emrs[emrId] = current.emrs[emrId] || {});
+  let count = 0;
+
+  for (const [screenId, fields] of Object.entries(mappings)) {
+    screens[screenId] = screens[screenId] || {};
+    for (const [emrFieldId, mapping] of Object.entries(fields)) {
+      screens[screenId][emrFieldId] = { ...mapping, confirmed: true };
+      count++;
+    }
+  }
+
+  await persistStore();
+  return count;
+}
@@ -9,12 +9,85 @@ const execAsync = promisify(exec);
 
 export interface OcrBlock {
   text: string;
-  bounds?: Rect;
+  bounds?: Rect; // Pixel coordinates in the OCR'd image
+  confidence?: number; // 0-1 (word confidence, or mean word confidence for a line)
+  level?: "line" | "word";
+  words?: OcrBlock[]; // Word blocks of a line, in reading order
 }
 
 export interface OcrResult {
   plainText: string;
-  blocks: OcrBlock[];
+  blocks: OcrBlock[]; // Line blocks in reading order
+  words: OcrBlock[]; // All word blocks in reading order
+}
+
+/**
+ * Bounding rectangle enclosing a set of rects
+ */
+function unionBounds(rects: Rect[]): Rect {
+  const left = Math.min(...rects.map((r) => r.x));
+  const top = Math.min(...rects.map((r) => r.y));
+  const right = Math.max(...rects.map((r) => r.x + r.width));
+  const bottom = Math.max(...rects.map((r) => r.y + r.height));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+/**
+ * Parse Tesseract TSV output into line and word blocks
+ * Columns: level, page_num, block_num, par_num, line_num, word_num,
+ * left, top, width, height, conf, text (level 5 rows are words)
+ */
+export function parseTesseractTsv(tsv: string): OcrResult {
+  const lines = new Map<string, OcrBlock[]>();
+
+  for (const row of tsv.split(/\r?\n/).slice(1)) {
+    const cols = row.split("\t");
+    if (cols.length < 12 || cols[0] !== "5") {
+      continue;
+    }
+
+    const text = cols.slice(11).join("\t").trim();
+    const conf = parseFloat(cols[10]);
+    if (!text || isNaN(conf) || conf < 0) {
+      continue;
+    }
+
+    const word: OcrBlock = {
+      text,
+      level: "word",
+      confidence: conf / 100,
+      bounds: {
+        x: parseInt(cols[6], 10),
+        y: parseInt(cols[7], 10),
+        width: parseInt(cols[8], 10),
+        height: parseInt(cols[9], 10),
+      },
+    };
+
+    // page:block:paragraph:line identifies the line a word belongs to
+    const lineKey = cols.slice(1, 5).join(":");
+    const lineWords = lines.get(lineKey);
+    if (lineWords) {
+      lineWords.push(word);
+    } else {
+      lines.set(lineKey, [word]);
+    }
+  }
+
+  const blocks: OcrBlock[] = Array.from(lines.values()).map((words) => ({
+    text: words.map((w) => w.text).join(" "),
+    level: "line",
+    confidence:
+      words.reduce((sum, w) => sum + (w.confidence ?? 0), 0) / words.length,
+    bounds: unionBounds(words.map((w) => w.bounds!)),
+    words,
+  }));
+
+  return {
+    plainText: blocks.map((b) => b.text).join("\n"),
+    blocks,
+    words: blocks.flatMap((b) => b.words ?? []),
+  };
 }
 
 /**
@@ -46,28 +119,21 @@ export async function recognize(imageBuffer: Buffer): Promise<OcrResult> {
   await fs.promises.writeFile(tempPath, imageBuffer);
 
   try {
-    // Run tesseract OCR with layout analysis (--psm 6)
-    // This gives us better text extraction but not detailed bounding boxes
-    // For more detailed blocks, we'd need to parse hOCR or use tesseract.js
-    const command = `tesseract "${tempPath}" stdout -l eng --psm 6 2>/dev/null`;
-    const { stdout, stderr } = await execAsync(command);
+    // Run tesseract OCR with layout analysis (--psm 6) and TSV output
+    // TSV gives per-word bounding boxes and confidence
+    const command = `tesseract "${tempPath}" stdout -l eng --psm 6 tsv 2>/dev/null`;
+    const { stdout, stderr } = await execAsync(command, {
+      maxBuffer: 16 * 1024 * 1024,
+    });
 
     if (stderr && !stderr.includes("Warning")) {
       console.warn("[OCR] Tesseract stderr:", stderr);
     }
 
-    const plainText = stdout.trim();
-
-    // For now, create a single block with all text
-    // In the future, we could parse hOCR output for detailed blocks
-    const blocks: OcrBlock[] = plainText
-      ? [
-          {
-            text: plainText,
-            // bounds not available from simple tesseract output
-          },
-        ]
-      : [];
+    const result = parseTesseractTsv(stdout);
+    console.log(
+      `[OCR] Recognized ${result.blocks.length} lines, ${result.words.length} words`
+    );
 
     // Clean up temp file
     try {
@@ -76,10 +142,7 @@ export async function recognize(imageBuffer: Buffer): Promise<OcrResult> {
       // Ignore cleanup errors
     }
 
-    return {
-      plainText,
-      blocks,
-    };
+    return result;
   } catch (error) {
     // Clean up temp file on error
     try {
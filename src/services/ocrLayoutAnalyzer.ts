@@ -0,0 +1,313 @@
+import { Rect } from "../types/agent";
+import { EmrField } from "../types/emr";
+import { inferEmrFieldType } from "./fieldInference";
+import { OcrBlock, OcrResult } from "./ocr";
+
+/**
+ * Words commonly used as EMR field labels (matched when a label has no colon)
+ */
+const LABEL_KEYWORDS = [
+  "name",
+  "surname",
+  "given",
+  "date",
+  "dob",
+  "birth",
+  "age",
+  "sex",
+  "gender",
+  "address",
+  "suburb",
+  "postcode",
+  "phone",
+  "mobile",
+  "email",
+  "medicare",
+  "mrn",
+  "allergies",
+  "medications",
+  "history",
+  "notes",
+  "diagnosis",
+  "complaint",
+  "reason",
+  "assessment",
+  "plan",
+  "examination",
+  "weight",
+  "height",
+  "bmi",
+  "bp",
+  "pulse",
+  "temperature",
+];
+
+/**
+ * Label words that usually sit above a multi-line text area
+ */
+const LONG_TEXT_KEYWORDS = [
+  "notes",
+  "history",
+  "assessment",
+  "plan",
+  "examination",
+  "summary",
+  "complaint",
+  "comments",
+  "findings",
+  "management",
+];
+
+const DEFAULT_INPUT_WIDTH = 250;
+const LONG_TEXT_MIN_WIDTH = 400;
+const MIN_WORD_CONFIDENCE = 0.4;
+
+interface LabelCandidate {
+  text: string;
+  bounds: Rect;
+  line: OcrBlock;
+}
+
+/**
+ * Snake_case field ID from a label
+ */
+function toFieldId(label: string): string {
+  return (
+    label
+      .toLowerCase()
+      .replace(/[^\w\s]/g, " ")
+      .trim()
+      .replace(/\s+/g, "_") || "field"
+  );
+}
+
+/**
+ * Bounding rectangle enclosing a set of word blocks
+ */
+function boundsOf(words: OcrBlock[]): Rect {
+  const rects = words.map((w) => w.bounds!);
+  const left = Math.min(...rects.map((r) => r.x));
+  const top = Math.min(...rects.map((r) => r.y));
+  const right = Math.max(...rects.map((r) => r.x + r.width));
+  const bottom = Math.max(...rects.map((r) => r.y + r.height));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+/**
+ * Split a line's words into segments separated by wide horizontal gaps
+ * (label and value columns are usually further apart than words in a phrase)
+ */
+function splitIntoSegments(words: OcrBlock[]): OcrBlock[][] {
+  const segments: OcrBlock[][] = [];
+  let current: OcrBlock[] = [];
+
+  for (const word of words) {
+    const previous = current[current.length - 1];
+    if (previous) {
+      const gap = word.bounds!.x - (previous.bounds!.x + previous.bounds!.width);
+      const lineHeight = Math.max(previous.bounds!.height, word.bounds!.height);
+      if (gap > lineHeight * 2) {
+        segments.push(current);
+        current = [];
+      }
+    }
+    current.push(word);
+  }
+
+  if (current.length > 0) {
+    segments.push(current);
+  }
+
+  return segments;
+}
+
+/**
+ * Whether a colon-less segment reads like a field label
+ */
+function looksLikeLabel(text: string): boolean {
+  const words = text.toLowerCase().split(/\s+/);
+  if (words.length > 4 || !/^[a-z]/i.test(text)) {
+    return false;
+  }
+
+  const letters = text.replace(/[^a-z]/gi, "").length;
+  if (letters / text.replace(/\s/g, "").length < 0.6) {
+    return false;
+  }
+
+  return words.some((w) =>
+    LABEL_KEYWORDS.includes(w.replace(/[^a-z]/g, ""))
+  );
+}
+
+/**
+ * Whether a line is a section heading (short, no colon, mostly uppercase)
+ */
+function looksLikeSectionHeading(line: OcrBlock): boolean {
+  const text = line.text.trim();
+  const letters = text.replace(/[^a-z]/gi, "");
+  return (
+    !text.includes(":") &&
+    text.split(/\s+/).length <= 4 &&
+    letters.length >= 3 &&
+    letters === letters.toUpperCase()
+  );
+}
+
+/**
+ * Find label candidates in a line ("Patient Name:", "DOB")
+ */
+function findLabelsInLine(line: OcrBlock): LabelCandidate[] {
+  const words = (line.words || []).filter(
+    (w) => w.bounds && (w.confidence ?? 1) >= MIN_WORD_CONFIDENCE
+  );
+  const labels: LabelCandidate[] = [];
+
+  for (const segment of splitIntoSegments(words)) {
+    const colonIndex = segment.findIndex((w) => w.text.endsWith(":"));
+
+    if (colonIndex >= 0) {
+      // Words after the colon are the field's current value (patient data): not kept
+      const labelWords = segment.slice(0, colonIndex + 1);
+      labels.push({
+        text: labelWords
+          .map((w) => w.text)
+          .join(" ")
+          .replace(/:$/, "")
+          .trim(),
+        bounds: boundsOf(labelWords),
+        line,
+      });
+      continue;
+    }
+
+    const text = segment.map((w) => w.text).join(" ");
+    if (looksLikeLabel(text)) {
+      labels.push({ text, bounds: boundsOf(segment), line });
+    }
+  }
+
+  return labels.filter((label) => label.text.length > 0);
+}
+
+/**
+ * Map a label to an EmrField type
+ */
+function inferFieldType(label: string): EmrField["type"] {
+  const lower = label.toLowerCase();
+  if (LONG_TEXT_KEYWORDS.some((k) => lower.includes(k))) {
+    return "long_text";
+  }
+
+  switch (inferEmrFieldType(label)) {
+    case "date":
+      return "date";
+    case "number":
+      return "number";
+    default:
+      return /\b(age|weight|height|bmi|pulse|temperature)\b/.test(lower)
+        ? "number"
+        : "text";
+  }
+}
+
+/**
+ * Build EMR fields from OCR word boxes without a vision model
+ * Finds label-like text and infers the input rectangle to the right of
+ * (single-line fields) or below (text areas) each label.
+ * Fields are returned in reading order, which approximates tab order.
+ */
+export function analyzeLayoutFromOcr(
+  ocrResult: OcrResult,
+  imageWidth?: number
+): EmrField[] {
+  const lines = ocrResult.blocks.filter((b) => b.bounds && b.words?.length);
+  const candidates: Array<LabelCandidate & { section?: string }> = [];
+  let section: string | undefined;
+
+  for (const line of lines) {
+    const labels = findLabelsInLine(line);
+    if (labels.length === 0 && looksLikeSectionHeading(line)) {
+      section = toFieldId(line.text);
+      continue;
+    }
+    labels.forEach((label) => candidates.push({ ...label, section }));
+  }
+
+  // Reading order: rows top-to-bottom (with tolerance), then left-to-right
+  candidates.sort((a, b) => {
+    const rowTolerance = Math.min(a.bounds.height, b.bounds.height) / 2;
+    if (Math.abs(a.bounds.y - b.bounds.y) > rowTolerance) {
+      return a.bounds.y - b.bounds.y;
+    }
+    return a.bounds.x - b.bounds.x;
+  });
+
+  const usedIds = new Map<string, number>();
+  const fields: EmrField[] = [];
+
+  candidates.forEach((label, index) => {
+    const type = inferFieldType(label.text);
+    const right = label.bounds.x + label.bounds.width;
+
+    // Next label to the right on the same row bounds the input width
+    const rowTolerance = label.bounds.height / 2;
+    const nextOnRow = candidates
+      .slice(index + 1)
+      .find(
+        (c) =>
+          Math.abs(c.bounds.y - label.bounds.y) <= rowTolerance &&
+          c.bounds.x > right
+      );
+    const nextBelow = candidates
+      .slice(index + 1)
+      .find((c) => c.bounds.y > label.bounds.y + label.bounds.height);
+
+    let boundingBox: Rect;
+    if (type === "long_text") {
+      // Text areas usually sit below their label
+      const top = label.bounds.y + label.bounds.height + 4;
+      const bottom = nextBelow
+        ? nextBelow.bounds.y - 4
+        : top + label.bounds.height * 4;
+      boundingBox = {
+        x: label.bounds.x,
+        y: top,
+        width: Math.max(
+          LONG_TEXT_MIN_WIDTH,
+          imageWidth ? imageWidth - label.bounds.x - 16 : 0
+        ),
+        height: Math.max(label.bounds.height * 2, bottom - top),
+      };
+    } else {
+      const left = right + 8;
+      const limit = nextOnRow
+        ? nextOnRow.bounds.x - 8
+        : imageWidth
+        ? Math.min(imageWidth, left + DEFAULT_INPUT_WIDTH)
+        : left + DEFAULT_INPUT_WIDTH;
+      boundingBox = {
+        x: left,
+        y: label.bounds.y - 4,
+        width: Math.max(40, limit - left),
+        height: label.bounds.height + 8,
+      };
+    }
+
+    const baseId = toFieldId(label.text);
+    const seen = usedIds.get(baseId) || 0;
+    usedIds.set(baseId, seen + 1);
+
+    fields.push({
+      id: seen ? `${baseId}_${seen + 1}` : baseId,
+      label: label.text,
+      type,
+      section: label.section,
+      boundingBox,
+    });
+  });
+
+  console.log(`[EMR] OCR layout analysis found ${fields.length} fields`);
+
+  return fields;
+}
@@ -0,0 +1,357 @@
+import { SessionFieldFormat } from "../types/agent";
+
+/**
+ * Clipboard flavor used for formatted notes
+ * - html: HTML flavor (most rich-text EMR editors and web EMRs)
+ * - rtf: RTF flavor (native Windows/macOS rich-text controls)
+ * - plain: flattened text only (headings and bullets as plain lines)
+ */
+export type RichTextTarget = "html" | "rtf" | "plain";
+
+/**
+ * A note rendered for entry: plain text (typed, or the clipboard's text flavor)
+ * plus the rich flavor pasted alongside it
+ */
+export interface RenderedText {
+  text: string;
+  html?: string;
+  rtf?: string;
+}
+
+interface Span {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+  href?: string;
+}
+
+type Block =
+  | { kind: "heading"; level: number; spans: Span[] }
+  | { kind: "paragraph"; lines: Span[][] }
+  | { kind: "list"; ordered: boolean; items: Span[][] };
+
+const INLINE_PATTERN =
+  /\*\*(.+?)\*\*|__(.+?)__|\*(?!\s)(.+?)\*|(?<!\w)_(?!\s)(.+?)_(?!\w)|`([^`]+)`|\[([^\]]+)\]\(([^)\s]+)\)/g;
+
+/**
+ * Map an API format string ("MARKDOWN", "HTML", ...) to a session field format
+ */
+export function parseContentFormat(format?: string): SessionFieldFormat {
+  const normalized = (format || "").toLowerCase();
+  if (normalized === "markdown" || normalized === "md") return "markdown";
+  if (normalized === "html") return "html";
+  return "plain";
+}
+
+/**
+ * Whether a session field holds formatted text that needs rendering
+ */
+export function isRichFormat(format?: SessionFieldFormat): boolean {
+  return format === "markdown" || format === "html";
+}
+
+/**
+ * Split a line of markdown into styled spans (bold, italic, code, links)
+ */
+function parseInline(line: string): Span[] {
+  const spans: Span[] = [];
+  let last = 0;
+
+  for (const match of line.matchAll(INLINE_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > last) {
+      spans.push({ text: line.slice(last, index) });
+    }
+
+    const [, bold1, bold2, italic1, italic2, code, linkText, href] = match;
+    if (bold1 || bold2) {
+      spans.push({ text: bold1 || bold2, bold: true });
+    } else if (italic1 || italic2) {
+      spans.push({ text: italic1 || italic2, italic: true });
+    } else if (code) {
+      spans.push({ text: code, code: true });
+    } else {
+      spans.push({ text: linkText, href });
+    }
+    last = index + match[0].length;
+  }
+
+  if (last < line.length) {
+    spans.push({ text: line.slice(last) });
+  }
+  return spans;
+}
+
+/**
+ * Parse the markdown Heidi returns (headings, paragraphs, bullet and numbered lists)
+ */
+function parseMarkdown(markdown: string): Block[] {
+  const blocks: Block[] = [];
+  let current: Block | null = null;
+
+  const close = () => {
+    if (current) {
+      blocks.push(current);
+      current = null;
+    }
+  };
+
+  for (const rawLine of markdown.split(/\r\n|\r|\n/)) {
+    const line = rawLine.trimEnd();
+
+    if (!line.trim() || /^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      close();
+      continue;
+    }
+
+    const heading = line.match(/^\s*(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (heading) {
+      close();
+      blocks.push({
+        kind: "heading",
+        level: heading[1].length,
+        spans: parseInline(heading[2]),
+      });
+      continue;
+    }
+
+    const bullet = line.match(/^\s*[-*+•]\s+(.*)$/);
+    const numbered = line.match(/^\s*\d+[.)]\s+(.*)$/);
+    if (bullet || numbered) {
+      const ordered = !!numbered;
+      const block = current as Block | null;
+      if (!block || block.kind !== "list" || block.ordered !== ordered) {
+        close();
+        current = { kind: "list", ordered, items: [] };
+      }
+      (current as unknown as Extract<Block, { kind: "list" }>).items.push(
+        parseInline((bullet || numbered)![1])
+      );
+      continue;
+    }
+
+    const block = current as Block | null;
+    if (block && block.kind === "paragraph") {
+      block.lines.push(parseInline(line.trim()));
+    } else {
+      close();
+      current = { kind: "paragraph", lines: [parseInline(line.trim())] };
+    }
+  }
+
+  close();
+  return blocks;
+}
+
+function spansToText(spans: Span[]): string {
+  return spans.map((span) => span.text).join("");
+}
+
+/**
+ * Flattened text: headings as plain lines, list items as "- " / "1. " lines,
+ * and a blank line between blocks, except under a heading
+ */
+function blocksToPlainText(blocks: Block[]): string {
+  return blocks
+    .map((block, index) => {
+      let text: string;
+      if (block.kind === "heading") {
+        text = spansToText(block.spans);
+      } else if (block.kind === "paragraph") {
+        text = block.lines.map(spansToText).join("\n");
+      } else {
+        text = block.items
+          .map((item, i) => `${block.ordered ? `${i + 1}.` : "-"} ${spansToText(item)}`)
+          .join("\n");
+      }
+
+      if (index === 0) {
+        return text;
+      }
+      const followsHeading =
+        block.kind !== "heading" && blocks[index - 1].kind === "heading";
+      return followsHeading ? `\n${text}` : `\n\n${text}`;
+    })
+    .join("");
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function spansToHtml(spans: Span[]): string {
+  return spans
+    .map((span) => {
+      const text = escapeHtml(span.text);
+      if (span.bold) return `<strong>${text}</strong>`;
+      if (span.italic) return `<em>${text}</em>`;
+      if (span.code) return `<code>${text}</code>`;
+      if (span.href) return `<a href="${escapeHtml(span.href)}">${text}</a>`;
+      return text;
+    })
+    .join("");
+}
+
+function blocksToHtml(blocks: Block[]): string {
+  return blocks
+    .map((block) => {
+      if (block.kind === "heading") {
+        return `<h${block.level}>${spansToHtml(block.spans)}</h${block.level}>`;
+      }
+      if (block.kind === "paragraph") {
+        return `<p>${block.lines.map(spansToHtml).join("<br>")}</p>`;
+      }
+      const tag = block.ordered ? "ol" : "ul";
+      return `<${tag}>${block.items
+        .map((item) => `<li>${spansToHtml(item)}</li>`)
+        .join("")}</${tag}>`;
+    })
+    .join("");
+}
+
+/**
+ * Escape text for RTF (control characters and non-ASCII as \uN?)
+ */
+function escapeRtf(text: string): string {
+  let escaped = "";
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if (char === "\\" || char === "{" || char === "}") {
+      escaped += `\\${char}`;
+    } else if (code > 0xffff) {
+      // Astral characters are written as their UTF-16 surrogate pair
+      const high = Math.floor((code - 0x10000) / 0x400) + 0xd800;
+      const low = ((code - 0x10000) % 0x400) + 0xdc00;
+      escaped += `\\u${high - 0x10000}?\\u${low - 0x10000}?`;
+    } else if (code > 0x7f) {
+      escaped += `\\u${code > 0x7fff ? code - 0x10000 : code}?`;
+    } else {
+      escaped += char;
+    }
+  }
+  return escaped;
+}
+
+function spansToRtf(spans: Span[]): string {
+  return spans
+    .map((span) => {
+      const text = escapeRtf(span.text);
+      if (span.bold) return `{\\b ${text}}`;
+      if (span.italic) return `{\\i ${text}}`;
+      if (span.code) return `{\\f1 ${text}}`;
+      return text;
+    })
+    .join("");
+}
+
+function blocksToRtf(blocks: Block[]): string {
+  const body = blocks
+    .map((block) => {
+      if (block.kind === "heading") {
+        const size = block.level <= 2 ? 28 : 24;
+        return `{\\b\\fs${size} ${spansToRtf(block.spans)}}\\par`;
+      }
+      if (block.kind === "paragraph") {
+        return `${block.lines.map(spansToRtf).join("\\line ")}\\par`;
+      }
+      return block.items
+        .map(
+          (item, i) =>
+            `${block.ordered ? `${i + 1}.` : "\\bullet"}\\tab ${spansToRtf(item)}\\par`
+        )
+        .join("\n");
+    })
+    .join("\n");
+
+  return `{\\rtf1\\ansi\\deff0{\\fonttbl{\\f0 Helvetica;}{\\f1 Courier;}}\\f0\\fs22\n${body}\n}`;
+}
+
+function decodeHtmlEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) =>
+      String.fromCodePoint(parseInt(code, 16))
+    )
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * Flatten HTML to plain text (block tags become line breaks, list items "- " lines)
+ */
+export function htmlToPlainText(html: string): string {
+  const text = html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<li[^>]*>/gi, "\n- ")
+    .replace(/<h[1-6][^>]*>/gi, "\n\n")
+    .replace(/<\/(p|div|h[1-6]|ul|ol|tr)>/gi, "\n")
+    .replace(/<[^>]+>/g, "");
+
+  return decodeHtmlEntities(text)
+    .split("\n")
+    .map((line) => line.replace(/[ \t]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Flatten markdown to plain text (no #, ** or list syntax left)
+ */
+export function markdownToPlainText(markdown: string): string {
+  return blocksToPlainText(parseMarkdown(markdown));
+}
+
+/**
+ * Render markdown as an HTML fragment
+ */
+export function markdownToHtml(markdown: string): string {
+  return blocksToHtml(parseMarkdown(markdown));
+}
+
+/**
+ * Render markdown as an RTF document
+ */
+export function markdownToRtf(markdown: string): string {
+  return blocksToRtf(parseMarkdown(markdown));
+}
+
+/**
+ * Render a session value for entry into an EMR field
+ * Markdown and HTML notes always get clean plain text, plus the target's rich flavor
+ */
+export function renderRichText(
+  value: string,
+  format: SessionFieldFormat | undefined,
+  target: RichTextTarget
+): RenderedText {
+  if (format === "markdown") {
+    const blocks = parseMarkdown(value);
+    const text = blocksToPlainText(blocks);
+    if (target === "html") return { text, html: blocksToHtml(blocks) };
+    if (target === "rtf") return { text, rtf: blocksToRtf(blocks) };
+    return { text };
+  }
+
+  if (format === "html") {
+    const text = htmlToPlainText(value);
+    if (target === "html") return { text, html: value };
+    if (target === "rtf") {
+      // Paragraph structure only; inline styling isn't carried over
+      return { text, rtf: markdownToRtf(text) };
+    }
+    return { text };
+  }
+
+  return { text: value };
+}
@@ -4,6 +4,7 @@ import * as os from "os";
 import * as path from "path";
 import sharp from "sharp";
 import { Rect } from "../types/agent";
+import { ImageSize } from "../types/emr";
 
 export interface ScreenshotResult {
   imagePath: string;
@@ -119,11 +120,21 @@ export async function captureFullScreen(): Promise<Buffer> {
 
 /**
  * Captures a specific region of the screen
+ * Pass a full-screen capture to crop several regions from the same frame
  */
-export async function captureRegion(rect: Rect): Promise<Buffer> {
-  const fullScreenBuffer = await captureFullScreen();
+export async function captureRegion(
+  rect: Rect,
+  fullScreenBuffer?: Buffer
+): Promise<Buffer> {
+  if (!fullScreenBuffer) {
+    fullScreenBuffer = await captureFullScreen();
+  }
+
+  // Clamp to the captured image (rects are in screenshot pixel coordinates)
+  const metadata = await sharp(fullScreenBuffer).metadata();
   const primaryDisplay = screen.getPrimaryDisplay();
-  const { width: screenWidth, height: screenHeight } = primaryDisplay.size;
+  const screenWidth = metadata.width ?? primaryDisplay.size.width;
+  const screenHeight = metadata.height ?? primaryDisplay.size.height;
 
   // Ensure rect is within bounds
   const cropX = Math.max(0, Math.min(rect.x, screenWidth - rect.width));
@@ -141,6 +152,21 @@ export async function captureRegion(rect: Rect): Promise<Buffer> {
     .toBuffer();
 }
 
+/**
+ * Translate a point in a full-screen capture to global screen coordinates
+ * Captures are thumbnails (at most 1920x1080, physical pixels on Retina), so scale by display size
+ */
+export function screenshotToScreenPoint(
+  point: { x: number; y: number },
+  imageSize: ImageSize
+): { x: number; y: number } {
+  const { bounds } = screen.getPrimaryDisplay();
+  return {
+    x: Math.round(bounds.x + (point.x * bounds.width) / imageSize.width),
+    y: Math.round(bounds.y + (point.y * bounds.height) / imageSize.height),
+  };
+}
+
 /**
  * Captures a region around a point (centered)
  */
@@ -1,7 +1,8 @@
-import axios from "axios";
 import { getVisionAiConfig } from "../config/aiConfig";
 import { SessionField } from "../types/agent";
 import { AiExtractedField } from "../types/ai";
+import { extractedFieldsSchema } from "./aiSchemas";
+import { visionLlmClient } from "./visionLlmClient";
 
 /**
  * Extract session fields from a screenshot using AI
@@ -18,24 +19,24 @@ export async function extractSessionFieldsFromImage(
     );
   }
 
-  const base64Image = imageBuffer.toString("base64");
-
   console.log("[SESSION] Extracting session fields from image using AI...");
   console.log("[SESSION] Provider:", config.provider, "Model:", config.modelId);
 
   // Use a generic prompt that works for any clinical/medical app
   const prompt = `You are analyzing a screenshot from a clinical or medical application (could be Heidi, EMR, or any other system).
 
-Extract all useful information fields from this image. Return ONLY a valid JSON array of objects with this exact structure:
-[
-  {
-    "id": "snake_case_field_id",
-    "label": "Human readable label",
-    "value": "extracted value",
-    "type": "name|date|id|text|number|list",
-    "confidence": 0.0-1.0
-  }
-]
+Extract all useful information fields from this image. Return ONLY a valid JSON object whose "items" array lists the fields, with this exact structure:
+{
+  "items": [
+    {
+      "id": "snake_case_field_id",
+      "label": "Human readable label",
+      "value": "extracted value",
+      "type": "name|date|id|text|number|list",
+      "confidence": 0.0-1.0
+    }
+  ]
+}
 
 CRITICAL GUIDELINES:
 - Extract clear key/value pairs where labels are obvious (e.g., "Patient Name", "MRN", "Date of Birth", "Diagnosis")
@@ -44,14 +45,13 @@ CRITICAL GUIDELINES:
 - Use snake_case for field IDs (e.g., "patient_name", "date_of_birth", "mrn", "clinical_note")
 - Set confidence based on how clear/complete the extraction is
 - If a field is not visible or unclear, omit it (don't include low-confidence guesses)
-- Return ONLY the JSON array, no markdown, no explanation
+- Return ONLY the JSON object, no markdown, no explanation
 
-JSON array:`;
+JSON object:`;
 
   try {
     // Call AI API directly with custom prompt
-    const base64Image = imageBuffer.toString("base64");
-    const fields = await callAiApiForSessionFields(config, base64Image, prompt);
+    const fields = await callAiApiForSessionFields(imageBuffer, prompt);
 
     console.log(
       `[SESSION] Extracted ${fields.length} high-confidence fields from image`
@@ -71,146 +71,16 @@ JSON array:`;
  * Call AI API to extract session fields with custom prompt
  */
 async function callAiApiForSessionFields(
-  config: ReturnType<typeof getVisionAiConfig>,
-  base64Image: string,
+  imageBuffer: Buffer,
   prompt: string
 ): Promise<SessionField[]> {
-  let requestBody: any;
-  let headers: any = {
-    "Content-Type": "application/json",
-  };
-
-  if (config.provider === "openai") {
-    requestBody = {
-      model: config.modelId,
-      messages: [
-        {
-          role: "user",
-          content: [
-            {
-              type: "text",
-              text: prompt,
-            },
-            {
-              type: "image_url",
-              image_url: {
-                url: `data:image/png;base64,${base64Image}`,
-              },
-            },
-          ],
-        },
-      ],
-      max_tokens: 4000,
-      temperature: 0.1,
-    };
-    headers.Authorization = `Bearer ${config.apiKey}`;
-  } else if (config.provider === "claude" || config.provider === "anthropic") {
-    requestBody = {
-      model: config.modelId,
-      max_tokens: 4000,
-      messages: [
-        {
-          role: "user",
-          content: [
-            {
-              type: "text",
-              text: prompt,
-            },
-            {
-              type: "image",
-              source: {
-                type: "base64",
-                media_type: "image/png",
-                data: base64Image,
-              },
-            },
-          ],
-        },
-      ],
-    };
-    headers["x-api-key"] = config.apiKey;
-    headers["anthropic-version"] = "2023-06-01";
-  } else {
-    throw new Error(`Unsupported AI provider: ${config.provider}`);
-  }
-
-  const response = await axios.post(config.apiUrl!, requestBody, { headers });
-
-  let jsonText: string;
-  if (config.provider === "openai") {
-    jsonText = response.data.choices[0]?.message?.content || "";
-  } else {
-    // Claude/Anthropic API format - response.content is an array of content blocks
-    const contentBlocks = response.data.content || [];
-    const textBlock = contentBlocks.find((block: any) => block.type === "text");
-    jsonText = textBlock?.text || contentBlocks[0]?.text || "";
-  }
-
-  // Clean up JSON (remove markdown code blocks if present)
-  jsonText = jsonText.trim();
-
-  // Try to extract JSON from markdown code blocks (handles both objects and arrays)
-  if (jsonText.startsWith("```")) {
-    // Remove opening ```json or ```
-    jsonText = jsonText.replace(/^```(?:json)?\s*\n?/, "");
-    // Remove closing ```
-    jsonText = jsonText.replace(/\n?```\s*$/, "");
-    jsonText = jsonText.trim();
-  }
-
-  // Try to find JSON array in the text if it's not already clean JSON
-  if (!jsonText.startsWith("[") && !jsonText.startsWith("{")) {
-    const arrayMatch = jsonText.match(/\[[\s\S]*\]/);
-    if (arrayMatch) {
-      jsonText = arrayMatch[0];
-    }
-  }
-
-  // Parse JSON
-  let parsed: AiExtractedField[];
-  try {
-    parsed = JSON.parse(jsonText);
-  } catch (parseError) {
-    // If parsing fails, try to extract valid JSON array from truncated response
-    console.warn(
-      "[SESSION] Initial JSON parse failed, attempting to extract valid array:",
-      jsonText.substring(0, 500)
-    );
-
-    // Try to find and parse a complete array by finding matching brackets
-    let bracketCount = 0;
-    let lastValidIndex = -1;
-    for (let i = 0; i < jsonText.length; i++) {
-      if (jsonText[i] === "[") bracketCount++;
-      if (jsonText[i] === "]") bracketCount--;
-      if (bracketCount === 0 && jsonText[i] === "]") {
-        lastValidIndex = i;
-        break;
-      }
-    }
-
-    if (lastValidIndex > 0) {
-      try {
-        const truncatedJson = jsonText.substring(0, lastValidIndex + 1);
-        parsed = JSON.parse(truncatedJson);
-        console.log(
-          `[SESSION] Successfully parsed truncated JSON (${parsed.length} fields)`
-        );
-      } catch (truncatedError) {
-        console.error(
-          "[SESSION] Failed to parse truncated JSON:",
-          jsonText.substring(0, 1000)
-        );
-        throw new Error("AI returned invalid JSON");
-      }
-    } else {
-      console.error(
-        "[SESSION] Failed to parse AI response:",
-        jsonText.substring(0, 1000)
-      );
-      throw new Error("AI returned invalid JSON");
-    }
-  }
+  // Truncated arrays (max_tokens hit) are salvaged by extractJson
+  const parsed = await visionLlmClient.completeStructured<
+    AiExtractedField[]
+  >(prompt, extractedFieldsSchema, imageBuffer, {
+    maxTokens: 4000,
+    schemaName: "extracted_fields",
+  });
 
   // Validate and convert to SessionField[], filtering low-confidence fields
   if (!Array.isArray(parsed)) {
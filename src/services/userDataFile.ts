@@ -0,0 +1,45 @@
+import { app } from "electron";
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * Path of a file in the app's user data dir
+ */
+export function getUserDataPath(fileName: string): string {
+  return path.join(app.getPath("userData"), fileName);
+}
+
+/**
+ * Read and parse a JSON file from the user data dir
+ * Returns null when the file does not exist or cannot be parsed
+ */
+export function readUserDataJson(fileName: string): unknown | null {
+  const filePath = getUserDataPath(fileName);
+  try {
+    return JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.warn(`[STORE] Failed to read ${filePath}:`, error);
+    }
+    return null;
+  }
+}
+
+/**
+ * Write a JSON file to the user data dir (write to temp file, then rename)
+ */
+export async function writeUserDataJson(
+  fileName: string,
+  data: unknown
+): Promise<void> {
+  const filePath = getUserDataPath(fileName);
+  const tempPath = `${filePath}.tmp`;
+
+  try {
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(tempPath, JSON.stringify(data, null, 2), "utf-8");
+    await fs.promises.rename(tempPath, filePath);
+  } catch (error) {
+    console.error(`[STORE] Failed to write ${filePath}:`, error);
+  }
+}
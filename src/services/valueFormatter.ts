@@ -0,0 +1,182 @@
+import { EmrFormatProfile } from "../config/emrProfiles";
+import { EmrField } from "../types/emr";
+import { normalizeDate, normalizePhone } from "./emrHeidiProfileMapper";
+
+/**
+ * The EMR field a value is about to be typed into (type may be unknown, e.g. for ⌥V)
+ */
+export interface FormatTarget {
+  type?: EmrField["type"] | string;
+  label?: string;
+}
+
+type ValueKind = "date" | "number" | "select" | "checkbox" | "phone" | "text";
+
+const CHECKED_VALUES = ["yes", "y", "true", "1", "checked", "x", "on"];
+const UNCHECKED_VALUES = ["no", "n", "false", "0", "unchecked", "off", "none"];
+
+/**
+ * Decide how to format a value from the EMR field type, falling back to its label
+ */
+function getValueKind(target: FormatTarget): ValueKind {
+  const label = (target.label || "").toLowerCase();
+
+  switch (target.type) {
+    case "date":
+    case "number":
+    case "select":
+    case "checkbox":
+      return target.type;
+    case "long_text":
+    case "display":
+      return "text";
+  }
+
+  if (/\b(phone|mobile|tel|telephone|fax|contact number)\b/.test(label)) {
+    return "phone";
+  }
+  if (/\b(sex|gender)\b/.test(label)) {
+    return "select";
+  }
+  if (/\b(date|dob|d\.o\.b)\b/.test(label)) {
+    return "date";
+  }
+  return "text";
+}
+
+/**
+ * Render an ISO date (YYYY-MM-DD) with a DD/MM/YYYY-style pattern
+ */
+function formatIsoDate(isoDate: string, pattern: string): string {
+  const [year, month, day] = isoDate.split("-");
+  return pattern
+    .replace(/YYYY/g, year)
+    .replace(/YY/g, year.slice(2))
+    .replace(/MM/g, month)
+    .replace(/DD/g, day);
+}
+
+function formatDate(value: string, profile: EmrFormatProfile): string {
+  const isoDate = normalizeDate(value, profile.sourceDateOrder);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(isoDate)) {
+    return value; // Not a date we understand; let the EMR validate it
+  }
+  return formatIsoDate(isoDate, profile.dateFormat);
+}
+
+/**
+ * Keep the leading number (or blood-pressure style pair), dropping units like "kg" or "mmHg"
+ */
+function formatNumber(value: string, profile: EmrFormatProfile): string {
+  if (!profile.stripNumberUnits) {
+    return value;
+  }
+  // A qualifier ("<5", ">200", "~70") is part of the value, only the unit goes
+  const match = value.match(
+    /^([<>~≈]?)\s*(-?\d[\d,]*(?:\.\d+)?(?:\s*\/\s*\d+(?:\.\d+)?)?)/
+  );
+  if (!match) {
+    return value;
+  }
+  return (
+    match[1] + match[2].replace(/,(?=\d{3}\b)/g, "").replace(/\s+/g, "")
+  );
+}
+
+/**
+ * Fill a #-pattern with the phone number's digits
+ * Without a pattern, or when the digit count doesn't fit it, the number is left as written
+ */
+function formatPhone(value: string, profile: EmrFormatProfile): string {
+  const pattern = profile.phoneFormat;
+  if (!pattern) {
+    return value;
+  }
+
+  const digits = normalizePhone(value).replace(/^\+/, "");
+  if (
+    !/^\d+$/.test(digits) ||
+    (pattern.match(/#/g) || []).length !== digits.length
+  ) {
+    return value;
+  }
+
+  let index = 0;
+  return pattern.replace(/#/g, () => digits[index++]);
+}
+
+function formatSelect(value: string, profile: EmrFormatProfile): string {
+  const key = value.toLowerCase();
+  const match = Object.entries(profile.selectValues).find(
+    ([from]) => from.toLowerCase() === key
+  );
+  return match ? match[1] : value;
+}
+
+/**
+ * Read a yes/no style value (null when it isn't one, e.g. "Hypertension")
+ */
+export function parseCheckboxValue(value: string): boolean | null {
+  const key = value.trim().toLowerCase();
+  if (CHECKED_VALUES.includes(key)) {
+    return true;
+  }
+  if (UNCHECKED_VALUES.includes(key)) {
+    return false;
+  }
+  return null;
+}
+
+function formatCheckbox(value: string, profile: EmrFormatProfile): string {
+  const checked = parseCheckboxValue(value);
+  if (checked === null) {
+    return value;
+  }
+  return checked
+    ? profile.checkboxValues.checked
+    : profile.checkboxValues.unchecked;
+}
+
+/**
+ * Format a session value for the EMR field it will be typed into
+ * Values that can't be parsed for the field's type are passed through (trimmed)
+ */
+export function formatValueForEmrField(
+  value: string,
+  target: FormatTarget,
+  profile: EmrFormatProfile
+): string {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    return value;
+  }
+
+  const kind = getValueKind(target);
+  let formatted: string;
+  switch (kind) {
+    case "date":
+      formatted = formatDate(trimmed, profile);
+      break;
+    case "number":
+      formatted = formatNumber(trimmed, profile);
+      break;
+    case "phone":
+      formatted = formatPhone(trimmed, profile);
+      break;
+    case "select":
+      formatted = formatSelect(trimmed, profile);
+      break;
+    case "checkbox":
+      formatted = formatCheckbox(trimmed, profile);
+      break;
+    default:
+      return value;
+  }
+
+  if (formatted !== trimmed) {
+    console.log(
+      `[FORMAT] ${kind} "${target.label || ""}": "${trimmed}" → "${formatted}"`
+    );
+  }
+  return formatted;
+}
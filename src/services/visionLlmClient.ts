@@ -0,0 +1,681 @@
+import axios from "axios";
+import {
+  getVisionAiConfig,
+  setProbedModelId,
+  VisionAiConfig,
+  VisionAiProvider,
+} from "../config/aiConfig";
+import { JsonSchema, validateAgainstSchema } from "./aiSchemas";
+
+export interface LlmCompletionOptions {
+  maxTokens?: number;
+  temperature?: number;
+  timeoutMs?: number;
+  retries?: number; // Extra attempts after a retryable failure
+}
+
+export interface StructuredCompletionOptions extends LlmCompletionOptions {
+  schemaName?: string; // Name for the provider's schema/tool (snake_case)
+}
+
+/**
+ * Schema the provider should enforce natively (root is always an object)
+ */
+interface ResponseSchema {
+  name: string;
+  schema: JsonSchema;
+}
+
+/**
+ * Result of probing the configured provider on startup
+ */
+export interface VisionProviderStatus {
+  provider?: VisionAiProvider;
+  reachable: boolean;
+  modelId?: string;
+  availableModels?: string[];
+  supportsImages?: boolean; // undefined when the provider cannot tell us
+  error?: string;
+}
+
+interface LlmRequest {
+  body: any;
+  headers: Record<string, string>;
+}
+
+const DEFAULT_IMAGE_TIMEOUT_MS = 60000;
+const DEFAULT_TEXT_TIMEOUT_MS = 30000;
+const DEFAULT_RETRIES = 2;
+const MAX_RETRY_DELAY_MS = 10000;
+const PROBE_TIMEOUT_MS = 5000;
+const REPAIR_INPUT_LIMIT = 12000;
+
+/**
+ * Providers require an object at the schema root, so arrays are wrapped in { items }
+ */
+function toObjectSchema(schema: JsonSchema): JsonSchema {
+  return schema.type === "object"
+    ? schema
+    : { type: "object", properties: { items: schema }, required: ["items"] };
+}
+
+/**
+ * Undo toObjectSchema on a parsed response (models sometimes skip the wrapper)
+ */
+function unwrapValue(value: any, schema: JsonSchema): unknown {
+  if (schema.type !== "object" && value && !Array.isArray(value)) {
+    return value.items;
+  }
+  return value;
+}
+
+/**
+ * Ollama tags may omit ":latest"; compare model names without it
+ */
+function sameModel(a: string, b: string): boolean {
+  return a.replace(/:latest$/, "") === b.replace(/:latest$/, "");
+}
+
+/**
+ * Whether a request failure is worth retrying (network errors, timeouts, 408/429/5xx)
+ */
+function isRetryableError(error: any): boolean {
+  if (!axios.isAxiosError(error)) {
+    return false;
+  }
+  if (!error.response) {
+    return true;
+  }
+  const status = error.response.status;
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Delay before the next attempt (Retry-After header if present, else exponential backoff)
+ */
+function getRetryDelay(error: any, attempt: number): number {
+  const retryAfter = Number(error?.response?.headers?.["retry-after"]);
+  if (!isNaN(retryAfter) && retryAfter > 0) {
+    return Math.min(retryAfter * 1000, MAX_RETRY_DELAY_MS);
+  }
+  return Math.min(1000 * Math.pow(2, attempt), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Extract a JSON value from model output
+ * Handles markdown fences, prose around the JSON, and arrays truncated by max_tokens
+ * (complete elements of a truncated array are kept, also inside the { items }
+ * wrapper that toObjectSchema asks for)
+ */
+export function extractJson(text: string): unknown {
+  let cleaned = text.trim();
+
+  const fenced = cleaned.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+  if (fenced) {
+    cleaned = fenced[1].trim();
+  }
+
+  try {
+    return JSON.parse(cleaned);
+  } catch {
+    // Fall through to bracket scanning
+  }
+
+  const start = cleaned.search(/[[{]/);
+  if (start < 0) {
+    throw new Error("AI returned invalid JSON");
+  }
+
+  const open: string[] = [];
+  let inString = false;
+  let escaped = false;
+  let lastElementEnd = -1;
+  let closeAfterElement = "";
+
+  for (let i = start; i < cleaned.length; i++) {
+    const ch = cleaned[i];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (ch === "\\") {
+        escaped = true;
+      } else if (ch === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (ch === '"') {
+      inString = true;
+    } else if (ch === "{" || ch === "[") {
+      open.push(ch);
+    } else if (ch === "}" || ch === "]") {
+      open.pop();
+      if (open.length === 0) {
+        try {
+          return JSON.parse(cleaned.substring(start, i + 1));
+        } catch {
+          break;
+        }
+      }
+      // An element of the top-level array, or of an array one object down
+      const path = open.join("");
+      if (path === "[" || path === "{[") {
+        lastElementEnd = i;
+        closeAfterElement = path === "[" ? "]" : "]}";
+      }
+    }
+  }
+
+  // Truncated array: keep the elements that completed
+  if (lastElementEnd > start) {
+    try {
+      const salvaged = JSON.parse(
+        cleaned.substring(start, lastElementEnd + 1) + closeAfterElement
+      );
+      const items = Array.isArray(salvaged)
+        ? salvaged
+        : Object.values(salvaged).find(Array.isArray) || [];
+      console.warn(
+        `[AI] Recovered ${items.length} items from truncated JSON array`
+      );
+      return salvaged;
+    } catch {
+      // Fall through to error
+    }
+  }
+
+  console.error("[AI] Failed to parse AI response:", cleaned.substring(0, 500));
+  throw new Error("AI returned invalid JSON");
+}
+
+/**
+ * Single client for every vision/LLM call
+ * Builds provider-specific request bodies and auth headers, parses responses,
+ * and retries transient failures with a per-request timeout
+ */
+export class VisionLlmClient {
+  private probing: Promise<VisionProviderStatus> | null = null;
+
+  constructor(
+    private readonly getConfig: () => VisionAiConfig = getVisionAiConfig
+  ) {}
+
+  isEnabled(): boolean {
+    return this.getConfig().enabled;
+  }
+
+  /**
+   * Send a prompt with a PNG screenshot and return the model's text
+   */
+  async completeWithImage(
+    prompt: string,
+    imageBuffer: Buffer,
+    options: LlmCompletionOptions = {}
+  ): Promise<string> {
+    return this.complete(prompt, imageBuffer.toString("base64"), {
+      timeoutMs: DEFAULT_IMAGE_TIMEOUT_MS,
+      ...options,
+    });
+  }
+
+  /**
+   * Send a text-only prompt and return the model's text
+   */
+  async completeText(
+    prompt: string,
+    options: LlmCompletionOptions = {}
+  ): Promise<string> {
+    return this.complete(prompt, undefined, {
+      timeoutMs: DEFAULT_TEXT_TIMEOUT_MS,
+      ...options,
+    });
+  }
+
+  /**
+   * Send a prompt (optionally with a screenshot) and return JSON matching a schema
+   * Uses provider-native structured output where available, validates the result,
+   * and asks the model to repair malformed output once before giving up
+   */
+  async completeStructured<T>(
+    prompt: string,
+    schema: JsonSchema,
+    imageBuffer?: Buffer,
+    options: StructuredCompletionOptions = {}
+  ): Promise<T> {
+    const responseSchema: ResponseSchema = {
+      name: options.schemaName || "structured_output",
+      schema: toObjectSchema(schema),
+    };
+
+    const text = await this.complete(
+      prompt,
+      imageBuffer?.toString("base64"),
+      {
+        timeoutMs: imageBuffer ? DEFAULT_IMAGE_TIMEOUT_MS : DEFAULT_TEXT_TIMEOUT_MS,
+        ...options,
+      },
+      responseSchema
+    );
+
+    const first = this.parseStructured(text, schema);
+    if (first.errors.length === 0) {
+      return first.value as T;
+    }
+
+    console.warn(
+      "[AI] Response did not match schema, requesting repair:",
+      first.errors.slice(0, 5)
+    );
+
+    // Repair is text-only: the model fixes its own output, no need to resend the image
+    const repairPrompt = `Your previous response did not match the required JSON schema.
+
+Errors:
+${first.errors.slice(0, 20).map((e) => `- ${e}`).join("\n")}
+
+Required JSON schema:
+${JSON.stringify(schema)}
+
+Previous response:
+${text.substring(0, REPAIR_INPUT_LIMIT)}
+
+Return ONLY the corrected JSON, no markdown, no explanation.`;
+
+    const repairedText = await this.complete(
+      repairPrompt,
+      undefined,
+      { timeoutMs: DEFAULT_TEXT_TIMEOUT_MS, ...options },
+      responseSchema
+    );
+
+    const repaired = this.parseStructured(repairedText, schema);
+    if (repaired.errors.length === 0) {
+      console.log("[AI] Repaired response matches schema");
+      return repaired.value as T;
+    }
+
+    throw new Error(
+      `AI response did not match schema: ${repaired.errors
+        .slice(0, 3)
+        .join("; ")}`
+    );
+  }
+
+  /**
+   * Check that the configured provider is reachable and the model exists
+   * Picks a model when none is configured (first vision-capable one for Ollama)
+   * Concurrent callers share the probe in flight, so an unreachable server is only
+   * waited on once
+   */
+  probe(): Promise<VisionProviderStatus> {
+    if (!this.probing) {
+      this.probing = this.runProbe().finally(() => {
+        this.probing = null;
+      });
+    }
+    return this.probing;
+  }
+
+  private async runProbe(): Promise<VisionProviderStatus> {
+    const config = this.getConfig();
+
+    if (!config.apiUrl) {
+      return {
+        provider: config.provider,
+        reachable: false,
+        error: "Vision AI not configured",
+      };
+    }
+
+    try {
+      if (config.provider === "ollama") {
+        return await this.probeOllama(config);
+      }
+      return await this.probeModelList(config);
+    } catch (error: any) {
+      return {
+        provider: config.provider,
+        reachable: false,
+        modelId: config.modelId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  private async probeOllama(
+    config: VisionAiConfig
+  ): Promise<VisionProviderStatus> {
+    const baseUrl = config.apiUrl!.replace(/\/api\/chat\/?$/, "");
+    const tags = await axios.get(`${baseUrl}/api/tags`, {
+      timeout: PROBE_TIMEOUT_MS,
+    });
+    const availableModels: string[] = (tags.data?.models || []).map(
+      (m: any) => m.name
+    );
+
+    // Newer Ollama versions report "vision" in /api/show capabilities
+    const getSupportsImages = async (
+      model: string
+    ): Promise<boolean | undefined> => {
+      try {
+        const show = await axios.post(
+          `${baseUrl}/api/show`,
+          { model },
+          { timeout: PROBE_TIMEOUT_MS }
+        );
+        const capabilities = show.data?.capabilities;
+        return Array.isArray(capabilities)
+          ? capabilities.includes("vision")
+          : undefined;
+      } catch {
+        return undefined;
+      }
+    };
+
+    let modelId = config.modelId;
+    if (!process.env.OLLAMA_MODEL_ID) {
+      for (const model of availableModels) {
+        if (await getSupportsImages(model)) {
+          modelId = model;
+          setProbedModelId(model);
+          break;
+        }
+      }
+    }
+
+    const installed =
+      !!modelId && availableModels.some((m) => sameModel(m, modelId!));
+
+    return {
+      provider: config.provider,
+      reachable: true,
+      modelId,
+      availableModels,
+      supportsImages: installed ? await getSupportsImages(modelId!) : false,
+      error: installed
+        ? undefined
+        : `Model "${modelId}" is not installed. Run: ollama pull ${modelId}`,
+    };
+  }
+
+  private async probeModelList(
+    config: VisionAiConfig
+  ): Promise<VisionProviderStatus> {
+    const isClaude =
+      config.provider === "claude" || config.provider === "anthropic";
+    const modelsUrl = isClaude
+      ? config.apiUrl!.replace(/\/messages\/?$/, "/models")
+      : config.apiUrl!.replace(/\/chat\/completions\/?$/, "/models");
+    const { headers } = this.buildRequest(config, "", undefined, {});
+
+    const response = await axios.get(modelsUrl, {
+      headers,
+      timeout: PROBE_TIMEOUT_MS,
+    });
+    const availableModels: string[] = (response.data?.data || []).map(
+      (m: any) => m.id
+    );
+
+    let modelId = config.modelId;
+    if (!modelId && config.provider === "custom" && availableModels.length) {
+      modelId = availableModels[0];
+      setProbedModelId(modelId);
+    }
+
+    const listed =
+      availableModels.length === 0 ||
+      (!!modelId && availableModels.includes(modelId));
+
+    return {
+      provider: config.provider,
+      reachable: true,
+      modelId,
+      availableModels,
+      error: listed
+        ? undefined
+        : `Model "${modelId}" is not served by ${modelsUrl}`,
+    };
+  }
+
+  private parseStructured(
+    text: string,
+    schema: JsonSchema
+  ): { value?: unknown; errors: string[] } {
+    let value: unknown;
+    try {
+      value = unwrapValue(extractJson(text), schema);
+    } catch (error) {
+      return {
+        errors: [error instanceof Error ? error.message : "Invalid JSON"],
+      };
+    }
+    return { value, errors: validateAgainstSchema(value, schema) };
+  }
+
+  private async complete(
+    prompt: string,
+    base64Image: string | undefined,
+    options: LlmCompletionOptions,
+    responseSchema?: ResponseSchema
+  ): Promise<string> {
+    // A startup probe may still be picking the model
+    if (this.probing) {
+      await this.probing;
+    }
+    const config = this.getConfig();
+
+    if (!config.enabled || !config.apiUrl) {
+      throw new Error(
+        "Vision AI not configured. Please set OPENAI_API_KEY (for OpenAI), CLAUDE_API_KEY (for Claude), or VISION_AI_PROVIDER=custom/ollama for a local model."
+      );
+    }
+
+    const request = this.buildRequest(
+      config,
+      prompt,
+      base64Image,
+      options,
+      responseSchema
+    );
+
+    let data: any;
+    try {
+      data = await this.post(config, request, options);
+    } catch (error: any) {
+      // Older models reject structured output parameters; fall back to plain JSON prompting
+      if (responseSchema && error?.response?.status === 400) {
+        console.warn(
+          "[AI] Provider rejected structured output, retrying without it"
+        );
+        return this.complete(prompt, base64Image, options);
+      }
+      throw error;
+    }
+    return this.parseResponse(config, data).trim();
+  }
+
+  private buildRequest(
+    config: VisionAiConfig,
+    prompt: string,
+    base64Image: string | undefined,
+    options: LlmCompletionOptions,
+    responseSchema?: ResponseSchema
+  ): LlmRequest {
+    const maxTokens = options.maxTokens ?? 2000;
+    const temperature = options.temperature ?? 0.1;
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+
+    if (config.provider === "claude" || config.provider === "anthropic") {
+      // Claude/Anthropic format - text must come first, then image
+      const content: any[] = [{ type: "text", text: prompt }];
+      if (base64Image) {
+        content.push({
+          type: "image",
+          source: {
+            type: "base64",
+            media_type: "image/png",
+            data: base64Image,
+          },
+        });
+      }
+      headers["x-api-key"] = config.apiKey!;
+      headers["anthropic-version"] = "2023-06-01";
+      return {
+        body: {
+          model: config.modelId,
+          max_tokens: maxTokens,
+          temperature,
+          messages: [{ role: "user", content }],
+          // Structured output via a forced tool call
+          ...(responseSchema
+            ? {
+                tools: [
+                  {
+                    name: responseSchema.name,
+                    description: "Return the extracted data.",
+                    input_schema: responseSchema.schema,
+                  },
+                ],
+                tool_choice: { type: "tool", name: responseSchema.name },
+              }
+            : {}),
+        },
+        headers,
+      };
+    }
+
+    if (config.provider === "ollama") {
+      // Ollama /api/chat format - raw base64 images on the message
+      return {
+        body: {
+          model: config.modelId,
+          messages: [
+            {
+              role: "user",
+              content: prompt,
+              ...(base64Image ? { images: [base64Image] } : {}),
+            },
+          ],
+          stream: false,
+          options: { temperature, num_predict: maxTokens },
+          ...(responseSchema ? { format: responseSchema.schema } : {}),
+        },
+        headers,
+      };
+    }
+
+    // OpenAI format (also used for "custom" OpenAI-compatible servers)
+    const content: any[] = [{ type: "text", text: prompt }];
+    if (base64Image) {
+      content.push({
+        type: "image_url",
+        image_url: { url: `data:image/png;base64,${base64Image}` },
+      });
+    }
+    if (config.apiKey) {
+      headers.Authorization = `Bearer ${config.apiKey}`;
+    }
+    return {
+      body: {
+        model: config.modelId,
+        messages: [
+          {
+            role: "user",
+            content: base64Image ? content : prompt,
+          },
+        ],
+        max_tokens: maxTokens,
+        temperature,
+        // OpenAI enforces the schema natively; OpenAI-compatible servers vary,
+        // so "custom" relies on validation and repair instead
+        ...(responseSchema && config.provider === "openai"
+          ? {
+              response_format: {
+                type: "json_schema",
+                json_schema: {
+                  name: responseSchema.name,
+                  schema: responseSchema.schema,
+                },
+              },
+            }
+          : {}),
+      },
+      headers,
+    };
+  }
+
+  private parseResponse(config: VisionAiConfig, data: any): string {
+    if (config.provider === "claude" || config.provider === "anthropic") {
+      // Claude/Anthropic API format - content is an array of content blocks
+      const contentBlocks = data?.content || [];
+      const toolBlock = contentBlocks.find(
+        (block: any) => block.type === "tool_use"
+      );
+      if (toolBlock) {
+        return JSON.stringify(toolBlock.input);
+      }
+      const textBlock = contentBlocks.find((block: any) => block.type === "text");
+      return textBlock?.text || contentBlocks[0]?.text || "";
+    }
+
+    if (config.provider === "ollama") {
+      return data?.message?.content || "";
+    }
+
+    const content = data?.choices?.[0]?.message?.content;
+    if (typeof content === "string") {
+      return content;
+    }
+    if (Array.isArray(content)) {
+      return content.map((part: any) => part?.text || "").join("");
+    }
+    return typeof data?.content === "string" ? data.content : data?.text || "";
+  }
+
+  private async post(
+    config: VisionAiConfig,
+    request: LlmRequest,
+    options: LlmCompletionOptions
+  ): Promise<any> {
+    const retries = options.retries ?? DEFAULT_RETRIES;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await axios.post(config.apiUrl!, request.body, {
+          headers: request.headers,
+          timeout: options.timeoutMs,
+        });
+        return response.data;
+      } catch (error: any) {
+        if (error.response) {
+          console.error("[AI] API Error Response:", {
+            status: error.response.status,
+            statusText: error.response.statusText,
+            data: error.response.data,
+            url: error.config?.url,
+            model: request.body.model,
+          });
+        }
+
+        if (attempt >= retries || !isRetryableError(error)) {
+          throw error;
+        }
+
+        const delay = getRetryDelay(error, attempt);
+        console.warn(
+          `[AI] Request failed (${
+            error.response?.status || error.code || "network error"
+          }), retrying in ${delay}ms (${attempt + 1}/${retries})`
+        );
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const visionLlmClient = new VisionLlmClient();
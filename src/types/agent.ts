@@ -1,3 +1,5 @@
+import { FillPlan, FillPlanExecutionResult } from "./fillPlan";
+
 export type HeidiFieldId = string;
 
 export interface HeidiFieldValue {
@@ -37,11 +39,76 @@ export interface AgentFieldMapping {
 
 export type AgentStatus = "idle" | "capturing" | "typing" | "error";
 
+/**
+ * How a session value is written: plain text, or a Heidi note in markdown/HTML
+ */
+export type SessionFieldFormat = "plain" | "markdown" | "html";
+
 export interface SessionField {
   id: string;
   label: string;
   value: string;
   source?: "heidi" | "emr" | "other";
+  format?: SessionFieldFormat; // Defaults to plain
+}
+
+/**
+ * A billing/diagnosis code from Heidi session coding
+ */
+export type CodeSystem = "icd" | "cpt" | "diagnosis";
+
+export interface SessionCode {
+  system: CodeSystem;
+  code: string;
+  description?: string;
+}
+
+/**
+ * One question and answer in the Ask Heidi conversation
+ */
+export interface AskHeidiTurn {
+  id: string;
+  question: string;
+  answer: string; // Grows while the answer streams in
+  status: "streaming" | "done" | "error";
+  error?: string;
+}
+
+/**
+ * A Heidi document template offered by the document generator
+ */
+export interface DocumentTemplate {
+  id: string; // Heidi template_id
+  label: string; // Shown in the picker and used as the document's field label
+}
+
+export type DocumentVoiceStyle =
+  | "GOLDILOCKS"
+  | "DETAILED"
+  | "BRIEF"
+  | "SUPER_DETAILED"
+  | "MY_VOICE";
+
+/**
+ * What the document generator asks Heidi to write
+ */
+export interface DocumentGenerationRequest {
+  templateId: string;
+  label?: string; // Field label for the document (defaults to the template id)
+  voiceStyle?: DocumentVoiceStyle;
+  brain?: "LEFT" | "RIGHT";
+  contentType?: "MARKDOWN" | "HTML";
+}
+
+/**
+ * A generated document, ready to preview and add as session fields
+ */
+export interface GeneratedDocument {
+  documentId: string;
+  label: string;
+  content: string;
+  format: SessionFieldFormat;
+  fields: SessionField[]; // The whole document, then one field per section
 }
 
 export interface LinkedWindow {
@@ -53,8 +120,14 @@ export interface LinkedWindow {
 export interface AgentState {
   status: AgentStatus;
   sessionId?: string; // Unique identifier for the current session
+  heidiSessionId?: string; // Heidi session the fields were imported from (API import)
   sessionFields: SessionField[]; // Generic key/value pairs captured in this session
+  sessionCodes?: SessionCode[]; // Codes from the imported Heidi session (code picker)
+  askHeidi?: AskHeidiTurn[]; // Ask Heidi conversation about the imported session
   currentIndex: number; // Index into sessionFields (selected key)
   lastError?: string;
   linkedEmrWindow?: LinkedWindow; // Linked EMR window for scoping agent operations
+  fillPlan?: FillPlan; // Fill plan awaiting review before it is typed into the EMR
+  undoDepth?: number; // Fill actions that ⌥Z can undo
+  fillReport?: FillPlanExecutionResult; // Last fill plan run, with verification results
 }
@@ -20,20 +20,62 @@ export interface EmrField {
     | "checkbox"
     | "display";
   section?: string; // e.g., "demographics", "clinical_summary"
-  boundingBox: Rect; // { x, y, width, height } in screen coordinates
+  boundingBox: Rect; // { x, y, width, height } in screenshot coordinates
+  labelBounds?: Rect; // Where OCR found the label text (used to re-align a reused layout)
   examples?: string[]; // Optional example values if detected
 }
 
+/**
+ * Pixel size of a screenshot
+ */
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
 /**
  * Represents a complete EMR form layout/screen
  */
 export interface EmrLayout {
   emrId: string; // Identifier for the EMR system (e.g., "acme_emr_v1")
   screenId: string; // Identifier for this specific screen/form (e.g., "patient_form", "consultation_form")
+  titlePattern?: string; // Window title with patient-specific parts removed (e.g., "patient_details")
   fields: EmrField[];
+  imageSize?: ImageSize; // Screenshot the bounding boxes are measured in
   createdAt: number; // Timestamp when layout was analyzed
 }
 
+/**
+ * EMR field → Heidi field mapping remembered on disk
+ */
+export interface StoredMapping {
+  emrLabel: string;
+  heidiFieldId: string | null; // HeidiFieldId; null = confirmed "no match"
+  confirmed: boolean; // true when a user corrected the mapping in the panel
+  updatedAt: number;
+}
+
+/**
+ * Remembered mappings for one EMR: screenId → emrFieldId → mapping
+ */
+export type EmrScreenMappings = Record<
+  string,
+  Record<EmrFieldId, StoredMapping>
+>;
+
+/**
+ * Versioned JSON bundle of analyzed layouts and confirmed mappings for one EMR
+ * Lets a tuned layout be shared between workstations
+ */
+export interface EmrLayoutBundle {
+  format: "heidi-cursor-layout-bundle";
+  version: 1;
+  emrId: string;
+  exportedAt: number;
+  layouts: EmrLayout[];
+  mappings: EmrScreenMappings; // Confirmed mappings only
+}
+
 /**
  * Mapping from EMR field to Heidi field
  */
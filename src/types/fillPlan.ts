@@ -1,3 +1,27 @@
+import { Rect } from "./agent";
+import { ImageSize } from "./emr";
+
+/**
+ * What to do with a fill plan step when the plan runs
+ */
+export type FillPlanStepAction = "fill" | "skip";
+
+/**
+ * How a step's value is entered into the EMR control
+ */
+export type FillStrategy =
+  | "type" // Type the value (text, date and number fields)
+  | "type_ahead" // Type the best matching option into a focused dropdown
+  | "select_option" // Open the dropdown and arrow-key to the best matching option
+  | "toggle_checkbox"; // Press Space when the value is an explicit yes
+
+/**
+ * How each field is focused before its value is entered
+ * - tab: start in the first field and press Tab between steps
+ * - click: click the centre of the field's bounding box (survives broken tab orders)
+ */
+export type FocusMode = "tab" | "click";
+
 /**
  * Represents a single step in the fill plan
  */
@@ -6,12 +30,67 @@ export interface FillPlanStep {
   emrLabel: string;
   emrType?: string;
   heidiFieldId: string | null; // null if no match found
+  action?: FillPlanStepAction; // Defaults to "fill"; "skip" presses a bare Tab
+  manualValue?: string; // Typed override that replaces the mapped session value
+  strategy?: FillStrategy; // Defaults to "type"
+  emrOptions?: string[]; // Dropdown options seen during layout analysis, in display order
+  emrBounds?: Rect; // Input box in screenshot coordinates (clicked to focus, read back to verify)
 }
 
 /**
  * Represents the complete fill plan for an EMR form
  */
 export interface FillPlan {
+  emrId?: string; // EMR the plan was built for (mapping store key)
+  screenId?: string; // Screen fingerprint the plan was built for (mapping store key)
   steps: FillPlanStep[];
+  focusMode?: FocusMode; // Defaults to "tab"
+  imageSize?: ImageSize; // Screenshot the step bounds are measured in (click mode)
   createdAt: number;
 }
+
+/**
+ * Result of executing a fill plan against the focused EMR form
+ */
+export interface FillPlanExecutionResult {
+  filledCount: number; // Steps that typed a value
+  skippedCount: number; // Steps that only pressed Tab (or were left alone in click mode)
+  focusMode?: FocusMode;
+  steps: FillPlanStepResult[];
+  mismatchCount?: number; // Steps whose re-captured text didn't match (set by verification)
+}
+
+/**
+ * What was actually sent for one step ("tab_only" when nothing was entered)
+ */
+export interface FillPlanStepResult {
+  emrFieldId: string;
+  emrLabel: string;
+  strategy: FillStrategy | "tab_only";
+  value?: string; // Text typed, option chosen, or "checked"
+  priorContent?: string; // Field text before typing (typed steps only; used by undo)
+  clickPoint?: { x: number; y: number }; // Screen point clicked to focus the field (click mode)
+  needsReview?: string; // Why the step was left for the user to fill (counted as skipped)
+  verification?: FillStepVerification;
+}
+
+/**
+ * Outcome of re-capturing a filled field and reading it back with OCR
+ * - verified: the field shows the intended value (within OCR tolerance)
+ * - truncated: the field shows only the start of the value
+ * - mismatch: the field shows different text (autocorrect, wrong box)
+ * - empty: the field shows nothing (it probably never had focus)
+ * - unverified: no bounding box, a dropdown/checkbox, or OCR unavailable
+ */
+export type FillVerificationStatus =
+  | "verified"
+  | "truncated"
+  | "mismatch"
+  | "empty"
+  | "unverified";
+
+export interface FillStepVerification {
+  status: FillVerificationStatus;
+  ocrText?: string;
+  similarity?: number; // 0-1 against the intended value
+}
@@ -0,0 +1,813 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { getEmrFormatProfile } from "../src/config/emrProfiles";
+import {
+  askHeidiStream,
+  getSession,
+  getSessionCoding,
+  getSessionConsultNotes,
+  getSessionDocuments,
+} from "../src/services/heidiApiClient";
+import { FillPlan } from "../src/types/fillPlan";
+import { AgentHarness, startAgentHarness } from "./harness/agentHarness";
+import { electronMock, setClipboardText } from "./harness/electronMock";
+
+vi.mock("../src/services/heidiApiClient", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../src/services/heidiApiClient")>()),
+  askHeidiStream: vi.fn(),
+  getSession: vi.fn(),
+  getSessionCoding: vi.fn(),
+  getSessionConsultNotes: vi.fn(),
+  getSessionDocuments: vi.fn(),
+}));
+
+const sessionFields = [
+  { id: "patient_name", label: "Patient Name", value: "Jane Citizen" },
+  { id: "dob", label: "Date of Birth", value: "12/03/1980" },
+  { id: "medications", label: "Medications", value: "Ramipril 5mg daily" },
+];
+
+// Keys sent to read an empty field before typing into it (for undo): select to each
+// edge and copy; nothing is copied, so no further key is pressed
+const READ_FIELD = [
+  "key shift+primary+up",
+  "key primary+c",
+  "key shift+primary+down",
+  "key primary+c",
+];
+
+// The same read with text before the caret: Right collapses the selection back to the caret
+const READ_FILLED_FIELD = [
+  "key shift+primary+up",
+  "key primary+c",
+  "key right",
+  "key shift+primary+down",
+  "key primary+c",
+];
+
+// Keys sent after a paste to copy the last character (the paste-complete signal)
+const PASTE_SIGNAL = ["key shift+left", "key primary+c", "key right"];
+
+// ⌥V reads the field before pasting (for undo) and again after (to check the paste landed)
+const pasted = (text: string, readBefore: string[] = READ_FIELD) => [
+  ...readBefore,
+  `paste ${JSON.stringify(text)}`,
+  ...PASTE_SIGNAL,
+  ...READ_FILLED_FIELD,
+];
+
+describe("agent IPC handlers", () => {
+  let agent: AgentHarness;
+
+  beforeAll(async () => {
+    agent = await startAgentHarness();
+  });
+
+  beforeEach(async () => {
+    await agent.reset();
+  });
+
+  afterAll(() => {
+    agent.stop();
+  });
+
+  describe("agent:pasteCurrentField", () => {
+    it("pastes the selected field and advances the selection", async () => {
+      await agent.addSessionFields(sessionFields);
+      setClipboardText("user clipboard");
+
+      await expect(agent.invoke("agent:pasteCurrentField")).resolves.toEqual({
+        success: true,
+      });
+      await agent.invoke("agent:pasteCurrentField");
+
+      expect(agent.recorder.transcript()).toEqual([
+        ...pasted("Jane Citizen"),
+        // Same simulated field: the caret is after "Jane Citizen"
+        ...pasted("12/03/1980", READ_FILLED_FIELD),
+      ]);
+      expect((await agent.getState()).currentIndex).toBe(2);
+      // The user's clipboard is put back after each paste
+      expect(electronMock.clipboard.readText()).toBe("user clipboard");
+    });
+
+    it("inserts at the caret, and undo puts the field back", async () => {
+      await agent.addSessionFields(sessionFields);
+      agent.recorder.focusField("Patient: , DOB", 9);
+
+      await agent.invoke("agent:pasteCurrentField");
+
+      expect(agent.recorder.focusedFieldText).toBe(
+        "Patient: Jane Citizen, DOB"
+      );
+      await agent.invoke("agent:undoLastFill");
+      expect(agent.recorder.focusedFieldText).toBe("Patient: , DOB");
+    });
+
+    it("respects selection changes made with selectNext/selectPrevious", async () => {
+      await agent.addSessionFields(sessionFields);
+
+      await agent.invoke("agent:selectNextField");
+      await agent.invoke("agent:selectNextField");
+      await agent.invoke("agent:selectPreviousField");
+      await agent.invoke("agent:pasteCurrentField");
+
+      expect(agent.recorder.transcript()).toEqual(pasted("12/03/1980"));
+    });
+
+    it("pastes values as written, whatever the session field label", async () => {
+      // The focused EMR field's type is unknown: "Sex" may be a free-text box
+      await agent.addSessionFields([
+        { id: "dob", label: "DOB", value: "1980-03-12" },
+        { id: "sex", label: "Sex", value: "Male" },
+      ]);
+
+      await agent.invoke("agent:pasteCurrentField");
+      await agent.invoke("agent:pasteCurrentField");
+
+      expect(agent.recorder.transcript()).toEqual([
+        ...pasted("1980-03-12"),
+        ...pasted("Male", READ_FILLED_FIELD),
+      ]);
+    });
+
+    it("re-types a paste the EMR ignored at the caret, and keeps typing after repeated failures", async () => {
+      await agent.addSessionFields([sessionFields[0]]);
+      await agent.linkEmrWindow({ appName: "Java EMR", windowTitle: "Patient" });
+
+      // The EMR swallows ⌘V
+      const spy = vi
+        .spyOn(agent.recorder, "pasteClipboard")
+        .mockImplementation(async () => {
+          agent.recorder.events.push({
+            kind: "paste",
+            text: electronMock.clipboard.readText(),
+          });
+        });
+
+      for (let attempt = 1; attempt <= 3; attempt++) {
+        agent.recorder.clear();
+        agent.recorder.focusField("Dr ");
+        await agent.invoke("agent:pasteCurrentField");
+
+        expect(agent.recorder.transcript()).toEqual([
+          ...pasted("Jane Citizen", READ_FILLED_FIELD),
+          'type "Jane Citizen"',
+        ]);
+        expect(agent.recorder.focusedFieldText).toBe("Dr Jane Citizen");
+        expect(getEmrFormatProfile("java_emr").typing.strategy).toBe(
+          attempt < 3 ? "auto" : "keystroke"
+        );
+      }
+      spy.mockRestore();
+
+      // The next paste is typed straight away
+      agent.recorder.clear();
+      await agent.invoke("agent:pasteCurrentField");
+      expect(agent.recorder.transcript()).toEqual([
+        ...READ_FIELD,
+        'type "Jane Citizen"',
+      ]);
+    });
+
+    it("doesn't re-type when the EMR ignores ⌘C, since the paste can't be checked", async () => {
+      await agent.addSessionFields(sessionFields);
+      await agent.linkEmrWindow({ appName: "Citrix EMR", windowTitle: "Patient" });
+
+      const pressKey = agent.recorder.pressKey.bind(agent.recorder);
+      const spy = vi
+        .spyOn(agent.recorder, "pressKey")
+        .mockImplementation(async (key, modifiers = []) => {
+          if (key === "c" && modifiers.includes("primary")) {
+            agent.recorder.events.push({ kind: "key", key, modifiers });
+            return;
+          }
+          await pressKey(key, modifiers);
+        });
+
+      await agent.invoke("agent:pasteCurrentField");
+      spy.mockRestore();
+
+      expect(agent.recorder.transcript()).not.toContainEqual(
+        expect.stringMatching(/^type /)
+      );
+      expect(agent.recorder.focusedFieldText).toBe("Jane Citizen");
+      expect(getEmrFormatProfile("citrix_emr").typing.strategy).toBe("auto");
+    });
+
+    it("sends nothing to the keyboard when the session is empty", async () => {
+      await expect(agent.invoke("agent:pasteCurrentField")).rejects.toThrow(
+        "No session fields available"
+      );
+      expect(agent.recorder.events).toEqual([]);
+      expect((await agent.getState()).status).toBe("error");
+    });
+  });
+
+  describe("agent:executeFillPlan", () => {
+    it("types mapped values in tab order and tabs past skipped steps", async () => {
+      await agent.addSessionFields(sessionFields);
+      await agent.linkEmrWindow();
+
+      const plan: FillPlan = {
+        createdAt: Date.now(),
+        steps: [
+          { emrFieldId: "name", emrLabel: "Name", heidiFieldId: "patient_name" },
+          { emrFieldId: "mrn", emrLabel: "MRN", heidiFieldId: null },
+          {
+            emrFieldId: "dob",
+            emrLabel: "DOB",
+            heidiFieldId: "dob",
+            action: "skip",
+          },
+          {
+            emrFieldId: "meds",
+            emrLabel: "Current medications",
+            heidiFieldId: "medications",
+            manualValue: "Nil",
+          },
+        ],
+      };
+
+      const result = await agent.invoke("agent:executeFillPlan", plan);
+
+      expect(result).toMatchObject({
+        success: true,
+        filledCount: 2,
+        skippedCount: 2,
+      });
+      expect(result.steps.map((step: any) => step.strategy)).toEqual([
+        "type",
+        "tab_only",
+        "tab_only",
+        "type",
+      ]);
+      expect(agent.recorder.transcript()).toEqual([
+        ...READ_FIELD,
+        'type "Jane Citizen"',
+        "tab",
+        "tab",
+        "tab",
+        ...READ_FIELD,
+        'type "Nil"',
+        "tab",
+      ]);
+      const state = await agent.getState();
+      expect(state.status).toBe("idle");
+      expect(state.fillReport?.filledCount).toBe(2);
+    });
+
+    it("formats mapped values for the EMR field type", async () => {
+      await agent.addSessionFields([
+        { id: "dob", label: "Date of Birth", value: "1980-03-12" },
+        { id: "sex", label: "Sex", value: "Female" },
+        { id: "weight", label: "Weight", value: "72.5 kg" },
+      ]);
+      await agent.linkEmrWindow();
+
+      await agent.invoke("agent:executeFillPlan", {
+        createdAt: Date.now(),
+        steps: [
+          { emrFieldId: "dob", emrLabel: "DOB", emrType: "date", heidiFieldId: "dob" },
+          { emrFieldId: "sex", emrLabel: "Sex", emrType: "select", heidiFieldId: "sex" },
+          { emrFieldId: "wt", emrLabel: "Weight", emrType: "number", heidiFieldId: "weight" },
+          {
+            emrFieldId: "wt2",
+            emrLabel: "Weight (manual)",
+            emrType: "number",
+            heidiFieldId: "weight",
+            manualValue: "73 kg",
+          },
+        ],
+      });
+
+      expect(agent.recorder.transcript()).toEqual([
+        ...READ_FIELD,
+        'type "12/03/1980"',
+        "tab",
+        ...READ_FIELD,
+        'type "F"',
+        "tab",
+        ...READ_FIELD,
+        'type "72.5"',
+        "tab",
+        ...READ_FIELD,
+        'type "73 kg"',
+        "tab",
+      ]);
+    });
+
+    it("pastes markdown notes as HTML into long-text fields and flattens them elsewhere", async () => {
+      await agent.addSessionFields([
+        {
+          id: "plan",
+          label: "Plan",
+          value: "## Plan\n- **Ramipril** 5mg daily\n- Review in 2 weeks",
+          format: "markdown",
+        },
+      ]);
+      await agent.linkEmrWindow();
+      const write = vi.spyOn(electronMock.clipboard, "write");
+
+      await agent.invoke("agent:executeFillPlan", {
+        createdAt: Date.now(),
+        steps: [
+          { emrFieldId: "notes", emrLabel: "Notes", emrType: "long_text", heidiFieldId: "plan" },
+          { emrFieldId: "summary", emrLabel: "Summary", emrType: "text", heidiFieldId: "plan" },
+        ],
+      });
+
+      const text = "Plan\n- Ramipril 5mg daily\n- Review in 2 weeks";
+      expect(agent.recorder.transcript()).toEqual([
+        ...READ_FIELD,
+        `paste ${JSON.stringify(text)}`,
+        ...PASTE_SIGNAL,
+        "tab",
+        ...READ_FIELD,
+        `type ${JSON.stringify(text)}`,
+        "tab",
+      ]);
+      expect(write).toHaveBeenCalledWith({
+        text,
+        html: "<h2>Plan</h2><ul><li><strong>Ramipril</strong> 5mg daily</li><li>Review in 2 weeks</li></ul>",
+        rtf: undefined,
+      });
+      write.mockRestore();
+    });
+
+    it("fills dropdowns and checkboxes with their strategies", async () => {
+      await agent.addSessionFields([
+        { id: "sex", label: "Sex", value: "Female" },
+        { id: "state", label: "State", value: "Victoria" },
+        { id: "smoker", label: "Smoker", value: "No" },
+        { id: "diabetes", label: "Diabetes", value: "Yes" },
+      ]);
+      await agent.linkEmrWindow();
+
+      const result = await agent.invoke("agent:executeFillPlan", {
+        createdAt: Date.now(),
+        steps: [
+          {
+            emrFieldId: "sex",
+            emrLabel: "Sex",
+            emrType: "select",
+            heidiFieldId: "sex",
+            strategy: "type_ahead",
+            emrOptions: ["Male", "Female", "Intersex"],
+          },
+          {
+            emrFieldId: "state",
+            emrLabel: "State",
+            emrType: "select",
+            heidiFieldId: "state",
+            strategy: "select_option",
+            emrOptions: ["NSW", "QLD", "VIC - Victoria", "WA"],
+          },
+          {
+            emrFieldId: "smoker",
+            emrLabel: "Smoker",
+            emrType: "checkbox",
+            heidiFieldId: "smoker",
+            strategy: "toggle_checkbox",
+          },
+          {
+            emrFieldId: "diabetes",
+            emrLabel: "Diabetes",
+            emrType: "checkbox",
+            heidiFieldId: "diabetes",
+            strategy: "toggle_checkbox",
+          },
+        ],
+      });
+
+      expect(agent.recorder.transcript()).toEqual([
+        'type "Female"',
+        "tab",
+        "key space",
+        'type "VIC - Victoria"',
+        "key return",
+        "tab",
+        "tab",
+        "key space",
+        "tab",
+      ]);
+      expect(
+        result.steps.map(({ emrFieldId, strategy, value }: any) => ({
+          emrFieldId,
+          strategy,
+          value,
+        }))
+      ).toEqual([
+        { emrFieldId: "sex", strategy: "type_ahead", value: "Female" },
+        { emrFieldId: "state", strategy: "select_option", value: "VIC - Victoria" },
+        { emrFieldId: "smoker", strategy: "toggle_checkbox", value: "unchecked" },
+        { emrFieldId: "diabetes", strategy: "toggle_checkbox", value: "checked" },
+      ]);
+    });
+
+    it("clicks into each field in click mode instead of tabbing", async () => {
+      await agent.addSessionFields([
+        ...sessionFields,
+        { id: "smoker", label: "Smoker", value: "Yes" },
+      ]);
+      await agent.linkEmrWindow();
+
+      // Captured at 2x the 1440x900 test display
+      const result = await agent.invoke("agent:executeFillPlan", {
+        createdAt: Date.now(),
+        focusMode: "click",
+        imageSize: { width: 2880, height: 1800 },
+        steps: [
+          {
+            emrFieldId: "name",
+            emrLabel: "Name",
+            heidiFieldId: "patient_name",
+            emrBounds: { x: 200, y: 100, width: 400, height: 40 },
+          },
+          {
+            emrFieldId: "mrn",
+            emrLabel: "MRN",
+            heidiFieldId: null,
+            emrBounds: { x: 200, y: 160, width: 400, height: 40 },
+          },
+          {
+            emrFieldId: "smoker",
+            emrLabel: "Smoker",
+            emrType: "checkbox",
+            heidiFieldId: "smoker",
+            strategy: "toggle_checkbox",
+            emrBounds: { x: 1000, y: 600, width: 20, height: 20 },
+          },
+          {
+            emrFieldId: "notes",
+            emrLabel: "Notes",
+            heidiFieldId: "medications",
+          },
+        ],
+      });
+
+      // Clicking toggles, so a box of unknown state isn't clicked
+      expect(result).toMatchObject({
+        success: true,
+        filledCount: 1,
+        skippedCount: 3,
+        focusMode: "click",
+      });
+      expect(result.steps[2]).toMatchObject({
+        emrFieldId: "smoker",
+        needsReview: "Tick this box by hand: its current state isn't known",
+      });
+      expect(agent.recorder.transcript()).toEqual([
+        "click 200,60",
+        ...READ_FIELD,
+        'type "Jane Citizen"',
+      ]);
+    });
+
+    it("leaves checkboxes without a yes or no for review", async () => {
+      await agent.addSessionFields([
+        { id: "diabetes", label: "Diabetes", value: "Type 2 diabetes" },
+        { id: "smoker", label: "Smoker", value: "unknown" },
+      ]);
+      await agent.linkEmrWindow();
+
+      const checkbox = (id: string, label: string) => ({
+        emrFieldId: id,
+        emrLabel: label,
+        emrType: "checkbox",
+        heidiFieldId: id,
+        strategy: "toggle_checkbox",
+      });
+      const result = await agent.invoke("agent:executeFillPlan", {
+        createdAt: Date.now(),
+        steps: [checkbox("diabetes", "Diabetes"), checkbox("smoker", "Smoker")],
+      });
+
+      expect(result).toMatchObject({ filledCount: 0, skippedCount: 2 });
+      expect(result.steps.map((step: any) => step.needsReview)).toEqual([
+        '"Type 2 diabetes" isn\'t a yes or no',
+        '"unknown" isn\'t a yes or no',
+      ]);
+      expect(agent.recorder.transcript()).toEqual(["tab", "tab"]);
+    });
+
+    it("refuses to type without a linked EMR window", async () => {
+      await agent.addSessionFields(sessionFields);
+      await agent.invoke("agent:setLinkedEmrWindow", null);
+
+      const result = await agent.invoke("agent:executeFillPlan", {
+        createdAt: Date.now(),
+        steps: [
+          { emrFieldId: "name", emrLabel: "Name", heidiFieldId: "patient_name" },
+        ],
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(/No EMR window linked/);
+      expect(agent.recorder.events).toEqual([]);
+    });
+  });
+
+  describe("agent:pasteCodes", () => {
+    const codes = [
+      { system: "icd", code: "J45.9", description: "Asthma" },
+      { system: "cpt", code: "99213" },
+    ];
+
+    it("types one code per field with Tab by default, and undoes them together", async () => {
+      await agent.linkEmrWindow();
+
+      await expect(
+        agent.invoke("agent:pasteCodes", { codes })
+      ).resolves.toEqual({ success: true, codeCount: 2 });
+      expect(agent.recorder.transcript()).toEqual([
+        ...READ_FIELD,
+        'type "J45.9"',
+        "tab",
+        ...READ_FIELD,
+        'type "99213"',
+        "tab",
+      ]);
+
+      agent.recorder.clear();
+      await expect(agent.invoke("agent:undoLastFill")).resolves.toEqual({
+        success: true,
+        restoredCount: 2,
+      });
+      expect(agent.recorder.transcript()).toEqual([
+        "key shift+tab",
+        "key primary+a",
+        "key delete",
+        "key shift+tab",
+        "key primary+a",
+        "key delete",
+      ]);
+    });
+
+    it("joins codes with a typed separator in the focused field", async () => {
+      await agent.linkEmrWindow();
+
+      await agent.invoke("agent:pasteCodes", {
+        codes,
+        includeDescription: true,
+        separator: "; ",
+      });
+
+      expect(agent.recorder.transcript()).toEqual([
+        ...READ_FIELD,
+        'type "J45.9 - Asthma; 99213"',
+      ]);
+      expect(agent.recorder.focusedFieldText).toBe("J45.9 - Asthma; 99213");
+    });
+
+    it("refuses to type without a linked EMR window or codes", async () => {
+      await expect(
+        agent.invoke("agent:pasteCodes", { codes })
+      ).resolves.toMatchObject({
+        success: false,
+        error: expect.stringMatching(/No EMR window linked/),
+      });
+      await agent.linkEmrWindow();
+      await expect(
+        agent.invoke("agent:pasteCodes", { codes: [] })
+      ).resolves.toEqual({ success: false, error: "No codes selected" });
+      expect(agent.recorder.transcript()).toEqual([]);
+    });
+  });
+
+  describe("agent:askHeidi", () => {
+    beforeEach(async () => {
+      vi.mocked(getSession).mockResolvedValue({
+        ok: true,
+        data: { session: { id: "s1", session_name: "Asthma review" } } as any,
+      });
+      vi.mocked(getSessionConsultNotes).mockResolvedValue({
+        ok: false,
+        error: "Not found",
+      });
+      vi.mocked(getSessionDocuments).mockResolvedValue({ ok: true, data: [] });
+      vi.mocked(getSessionCoding).mockResolvedValue({
+        ok: false,
+        error: "Not found",
+      });
+      vi.mocked(askHeidiStream).mockClear();
+      vi.mocked(askHeidiStream).mockImplementation(async (request, onText) => {
+        onText("Review in ");
+        onText("2 weeks");
+        return {
+          ok: true,
+          data: { answer: "Review in 2 weeks", session_id: request.session_id },
+        };
+      });
+    });
+
+    it("streams the answer for the imported session into the conversation", async () => {
+      await agent.invoke("agent:importHeidiSession", "s1");
+
+      await expect(
+        agent.invoke("agent:askHeidi", "When is follow-up?")
+      ).resolves.toEqual({ success: true, answer: "Review in 2 weeks" });
+      expect(askHeidiStream).toHaveBeenCalledWith(
+        { session_id: "s1", question: "When is follow-up?" },
+        expect.any(Function)
+      );
+      const state = await agent.getState();
+      expect(state.askHeidi).toEqual([
+        expect.objectContaining({
+          question: "When is follow-up?",
+          answer: "Review in 2 weeks",
+          status: "done",
+        }),
+      ]);
+    });
+
+    it("records a failed answer as an error turn", async () => {
+      vi.mocked(askHeidiStream).mockResolvedValue({
+        ok: false,
+        error: "Heidi API error: 500",
+      });
+      await agent.invoke("agent:importHeidiSession", "s1");
+
+      await expect(
+        agent.invoke("agent:askHeidi", "Summarise the plan")
+      ).resolves.toEqual({ success: false, error: "Heidi API error: 500" });
+      const state = await agent.getState();
+      expect(state.askHeidi).toEqual([
+        expect.objectContaining({
+          status: "error",
+          error: "Heidi API error: 500",
+        }),
+      ]);
+    });
+
+    it("refuses to ask without an imported session", async () => {
+      await expect(
+        agent.invoke("agent:askHeidi", "Summarise the plan")
+      ).resolves.toMatchObject({
+        success: false,
+        error: expect.stringMatching(/Import a Heidi session/),
+      });
+      expect(askHeidiStream).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("agent:generateDocument", () => {
+    it("refuses to generate without a template or an imported session", async () => {
+      await expect(
+        agent.invoke("agent:generateDocument", { templateId: " " })
+      ).resolves.toEqual({
+        success: false,
+        error: "Choose a document template",
+      });
+      await expect(
+        agent.invoke("agent:generateDocument", { templateId: "tpl_referral" })
+      ).resolves.toMatchObject({
+        success: false,
+        error: expect.stringMatching(/Import a Heidi session/),
+      });
+    });
+  });
+
+  describe("agent:undoLastFill", () => {
+    it("reports when there is nothing to undo", async () => {
+      const result = await agent.invoke("agent:undoLastFill");
+      expect(result).toEqual({ success: false, error: "Nothing to undo" });
+      expect(agent.recorder.events).toEqual([]);
+    });
+
+    it("restores a pasted field's prior content and moves the selection back", async () => {
+      await agent.addSessionFields(sessionFields);
+
+      // Paste into two EMR fields that already held text
+      agent.recorder.focusField("Old name");
+      await agent.invoke("agent:pasteCurrentField");
+      agent.recorder.focusField("Old value");
+      await agent.invoke("agent:pasteCurrentField");
+      expect(agent.recorder.focusedFieldText).toBe("Old value12/03/1980");
+      expect((await agent.getState()).undoDepth).toBe(2);
+      agent.recorder.events.length = 0;
+
+      const result = await agent.invoke("agent:undoLastFill");
+
+      expect(result).toEqual({ success: true, restoredCount: 1 });
+      expect(agent.recorder.transcript()).toEqual([
+        "key primary+a",
+        'type "Old value"',
+      ]);
+      expect(agent.recorder.focusedFieldText).toBe("Old value");
+      const state = await agent.getState();
+      expect(state.currentIndex).toBe(1);
+      expect(state.undoDepth).toBe(1);
+    });
+
+    it("keeps the undo record when restoring fails, so it can be retried", async () => {
+      await agent.addSessionFields(sessionFields);
+      agent.recorder.focusField("Old name");
+      await agent.invoke("agent:pasteCurrentField");
+
+      const spy = vi
+        .spyOn(agent.recorder, "pressKey")
+        .mockRejectedValueOnce(new Error("Focus lost"));
+      await expect(agent.invoke("agent:undoLastFill")).resolves.toMatchObject({
+        success: false,
+      });
+      expect((await agent.getState()).undoDepth).toBe(1);
+
+      await expect(agent.invoke("agent:undoLastFill")).resolves.toEqual({
+        success: true,
+        restoredCount: 1,
+      });
+      expect(agent.recorder.focusedFieldText).toBe("Old name");
+      expect((await agent.getState()).undoDepth).toBe(0);
+      spy.mockRestore();
+    });
+
+    it("walks a fill plan back with Shift+Tab", async () => {
+      await agent.addSessionFields([
+        ...sessionFields,
+        { id: "smoker", label: "Smoker", value: "Yes" },
+      ]);
+      await agent.linkEmrWindow();
+      await agent.invoke("agent:executeFillPlan", {
+        createdAt: Date.now(),
+        steps: [
+          { emrFieldId: "name", emrLabel: "Name", heidiFieldId: "patient_name" },
+          { emrFieldId: "mrn", emrLabel: "MRN", heidiFieldId: null },
+          {
+            emrFieldId: "smoker",
+            emrLabel: "Smoker",
+            emrType: "checkbox",
+            heidiFieldId: "smoker",
+            strategy: "toggle_checkbox",
+          },
+        ],
+      });
+      agent.recorder.clear();
+
+      const result = await agent.invoke("agent:undoLastFill");
+
+      expect(result).toEqual({ success: true, restoredCount: 2 });
+      expect(agent.recorder.transcript()).toEqual([
+        "key shift+tab",
+        "key space",
+        "key shift+tab",
+        "key shift+tab",
+        "key primary+a",
+        "key delete",
+      ]);
+    });
+
+    it("clicks back into each field to undo a click-mode fill plan", async () => {
+      await agent.addSessionFields([
+        ...sessionFields,
+        { id: "smoker", label: "Smoker", value: "Yes" },
+      ]);
+      await agent.linkEmrWindow();
+      await agent.invoke("agent:executeFillPlan", {
+        createdAt: Date.now(),
+        focusMode: "click",
+        imageSize: { width: 1440, height: 900 },
+        steps: [
+          {
+            emrFieldId: "name",
+            emrLabel: "Name",
+            heidiFieldId: "patient_name",
+            emrBounds: { x: 100, y: 50, width: 200, height: 20 },
+          },
+          {
+            emrFieldId: "mrn",
+            emrLabel: "MRN",
+            heidiFieldId: null,
+            emrBounds: { x: 100, y: 80, width: 200, height: 20 },
+          },
+          {
+            emrFieldId: "smoker",
+            emrLabel: "Smoker",
+            emrType: "checkbox",
+            heidiFieldId: "smoker",
+            strategy: "toggle_checkbox",
+            emrBounds: { x: 500, y: 300, width: 10, height: 10 },
+          },
+        ],
+      });
+      agent.recorder.clear();
+
+      const result = await agent.invoke("agent:undoLastFill");
+
+      expect(result).toEqual({ success: true, restoredCount: 1 });
+      expect(agent.recorder.transcript()).toEqual([
+        "click 200,60",
+        "key primary+a",
+        "key delete",
+      ]);
+    });
+
+    it("forgets history when the session is cleared", async () => {
+      await agent.addSessionFields(sessionFields);
+      await agent.invoke("agent:pasteCurrentField");
+      await agent.invoke("agent:clearSession");
+
+      const result = await agent.invoke("agent:undoLastFill");
+      expect(result.success).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import {
+  extractedFieldsSchema,
+  JsonSchema,
+  validateAgainstSchema,
+} from "../src/services/aiSchemas";
+
+describe("validateAgainstSchema", () => {
+  it("accepts matching values, with extra properties", () => {
+    expect(
+      validateAgainstSchema(
+        [
+          { id: "mrn", label: "MRN", value: "12345", confidence: 0.9 },
+          { id: "dob", label: "DOB", value: "12/03/1980", page: 2 },
+        ],
+        extractedFieldsSchema
+      )
+    ).toEqual([]);
+  });
+
+  it("reports each error with its path", () => {
+    expect(
+      validateAgainstSchema(
+        [
+          { id: "mrn", label: "MRN", value: 12345 },
+          { id: "dob", value: "12/03/1980", confidence: 1.5 },
+          "Jane Citizen",
+        ],
+        extractedFieldsSchema
+      )
+    ).toEqual([
+      "$[0].value must be a string",
+      "$[1].label is required",
+      "$[1].confidence must be <= 1",
+      "$[2] must be an object",
+    ]);
+    expect(
+      validateAgainstSchema({ items: [] }, extractedFieldsSchema)
+    ).toEqual(["$ must be an array"]);
+  });
+
+  it("checks integers and enums", () => {
+    const schema: JsonSchema = {
+      type: "object",
+      properties: {
+        count: { type: "integer", minimum: 0 },
+        kind: { type: "string", enum: ["text", "date"] },
+      },
+      required: ["kind"],
+    };
+
+    expect(validateAgainstSchema({ count: 2, kind: "date" }, schema)).toEqual(
+      []
+    );
+    expect(
+      validateAgainstSchema({ count: -1.5, kind: "name" }, schema)
+    ).toEqual([
+      "$.count must be an integer",
+      "$.count must be >= 0",
+      "$.kind must be one of: text, date",
+    ]);
+    expect(validateAgainstSchema({ count: 1 }, schema)).toEqual([
+      "$.kind is required",
+    ]);
+  });
+});
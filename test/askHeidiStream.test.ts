@@ -0,0 +1,102 @@
+import { Readable } from "stream";
+import { describe, expect, it } from "vitest";
+import {
+  readAnswerStream,
+  withIdleTimeout,
+} from "../src/services/askHeidiStream";
+
+async function read(chunks: (string | Buffer)[]) {
+  const pieces: string[] = [];
+  const answer = await readAnswerStream(
+    Readable.from(
+      chunks.map((chunk) =>
+        typeof chunk === "string" ? Buffer.from(chunk) : chunk
+      )
+    ),
+    (text) => pieces.push(text)
+  );
+  return { answer, pieces };
+}
+
+describe("readAnswerStream", () => {
+  it("reads server-sent event deltas, including events split across chunks", async () => {
+    const { answer, pieces } = await read([
+      'data: {"delta": "Continue "}\n\ndata: {"del',
+      'ta": "preventer"}\n\n',
+      'data: "."\n\ndata: [DONE]\n\n',
+    ]);
+
+    expect(pieces).toEqual(["Continue ", "preventer", "."]);
+    expect(answer).toBe("Continue preventer.");
+  });
+
+  it("reads a body without events as the whole answer", async () => {
+    await expect(
+      read(['{"answer": "Review in ', '2 weeks", "session_id": "s1"}'])
+    ).resolves.toEqual({
+      answer: "Review in 2 weeks",
+      pieces: ["Review in 2 weeks"],
+    });
+    await expect(read(["Plain text answer\n"])).resolves.toEqual({
+      answer: "Plain text answer",
+      pieces: ["Plain text answer"],
+    });
+  });
+
+  it("keeps deltas that are bare JSON numbers or keywords", async () => {
+    const { answer, pieces } = await read([
+      'data: "Review in "\n\ndata: 10\n\n',
+      'data: " days"\n\ndata: [DONE]\n\n',
+    ]);
+
+    expect(pieces).toEqual(["Review in ", "10", " days"]);
+    expect(answer).toBe("Review in 10 days");
+    await expect(read(["data: true\n\n"])).resolves.toEqual({
+      answer: "true",
+      pieces: ["true"],
+    });
+    await expect(read(["5"])).resolves.toEqual({ answer: "5", pieces: ["5"] });
+  });
+
+  it("decodes characters split across chunks", async () => {
+    const bytes = Buffer.from('data: "Zoé"\n\n');
+    const split = bytes.indexOf(0xa9); // Second byte of "é"
+
+    await expect(
+      read([bytes.subarray(0, split), bytes.subarray(split)])
+    ).resolves.toEqual({ answer: "Zoé", pieces: ["Zoé"] });
+  });
+});
+
+describe("withIdleTimeout", () => {
+  const sleep = (ms: number) =>
+    new Promise((resolve) => setTimeout(resolve, ms));
+
+  async function* slowChunks(count: number, gapMs: number) {
+    for (let i = 0; i < count; i++) {
+      await sleep(gapMs);
+      yield `data: "${i}"\n\n`;
+    }
+  }
+
+  it("lets a long answer finish as long as chunks keep arriving", async () => {
+    // 5 chunks 30ms apart: longer overall than the 50ms idle limit
+    await expect(
+      readAnswerStream(withIdleTimeout(slowChunks(5, 30), 50), () => {})
+    ).resolves.toBe("01234");
+  });
+
+  it("fails a stream that stalls, and stops it", async () => {
+    const stalled = new Readable({ read() {} });
+    stalled.push('data: "Continue"\n\n');
+    const pieces: string[] = [];
+
+    await expect(
+      readAnswerStream(withIdleTimeout(stalled, 50), (text) =>
+        pieces.push(text)
+      )
+    ).rejects.toThrow("no data for 0.05s");
+    expect(pieces).toEqual(["Continue"]);
+    expect(stalled.destroyed).toBe(true);
+  });
+});
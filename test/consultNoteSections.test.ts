@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_NOTE_SECTIONS } from "../src/config/noteSections";
+import {
+  matchNoteSection,
+  splitConsultNote,
+} from "../src/services/consultNoteSections";
+
+const sections = (fields: ReturnType<typeof splitConsultNote>) =>
+  fields.map(({ id, label, value }) => ({ id, label, value }));
+
+const split = (note: string) =>
+  sections(splitConsultNote(note, "markdown", DEFAULT_NOTE_SECTIONS));
+
+const match = (heading: string) =>
+  matchNoteSection(heading, DEFAULT_NOTE_SECTIONS);
+
+describe("matchNoteSection", () => {
+  it("matches headings exactly, then by their longest leading dictionary heading", () => {
+    expect(match("History of Presenting Complaint:")).toBe("history");
+    expect(match("O/E")).toBe("examination");
+    expect(match("Past medical history")).toBe("past_medical_history");
+    expect(match("Plan and follow-up")).toBe("plan");
+    expect(match("Cardiovascular")).toBeNull();
+  });
+
+  it("files review appointments as follow-up, but not a review of systems", () => {
+    expect(match("Review in 2 weeks")).toBe("follow_up");
+    expect(match("Next review:")).toBe("follow_up");
+    expect(match("Follow-up")).toBe("follow_up");
+    expect(match("Review of systems")).toBeNull();
+    expect(match("Review of results")).toBeNull();
+  });
+});
+
+describe("splitConsultNote", () => {
+  it("splits a markdown note by heading, keeping sub-headings in their section", () => {
+    const note = [
+      "# Consult note",
+      "",
+      "## History",
+      "Cough for 3 days.",
+      "",
+      "## Examination",
+      "### Cardiovascular",
+      "- HS dual, no murmur",
+      "",
+      "## Plan",
+      "- Salbutamol PRN",
+    ].join("\n");
+
+    expect(split(note)).toEqual([
+      { id: "history", label: "History", value: "Cough for 3 days." },
+      {
+        id: "examination",
+        label: "Examination",
+        value: "### Cardiovascular\n- HS dual, no murmur",
+      },
+      { id: "plan", label: "Plan", value: "- Salbutamol PRN" },
+    ]);
+  });
+
+  it("reads bold and 'Label:' headings and joins repeated sections", () => {
+    const note = [
+      "**Subjective**",
+      "Feeling better.",
+      "Medications: Ramipril 5mg",
+      "**Plan:** Continue",
+      "BP: 128/80",
+      "Management: review bloods",
+      "**Housing**",
+      "Lives alone",
+    ].join("\n");
+
+    expect(split(note)).toEqual([
+      { id: "history", label: "History", value: "Feeling better." },
+      { id: "medications", label: "Medications", value: "Ramipril 5mg" },
+      { id: "plan", label: "Plan", value: "Continue\nBP: 128/80\nreview bloods" },
+      { id: "consult_note_housing", label: "Housing", value: "Lives alone" },
+    ]);
+  });
+
+  it("splits HTML notes and keeps the section markup", () => {
+    const note =
+      "<h2>Assessment</h2><p>Viral URTI</p>" +
+      "<p><strong>Plan</strong></p><ul><li>Fluids</li></ul>";
+
+    const fields = splitConsultNote(note, "html", DEFAULT_NOTE_SECTIONS);
+
+    expect(sections(fields)).toEqual([
+      { id: "assessment", label: "Assessment", value: "<p>Viral URTI</p>" },
+      { id: "plan", label: "Plan", value: "<ul><li>Fluids</li></ul>" },
+    ]);
+    expect(fields.every((field) => field.format === "html")).toBe(true);
+  });
+
+  it("uses a custom dictionary", () => {
+    const fields = splitConsultNote("## Impression\nAsthma", "markdown", {
+      diagnosis: { label: "Diagnosis", headings: ["impression"] },
+    });
+
+    expect(sections(fields)).toEqual([
+      { id: "diagnosis", label: "Diagnosis", value: "Asthma" },
+    ]);
+  });
+});
@@ -0,0 +1,134 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createDocument, getDocument } from "../src/services/heidiApiClient";
+import {
+  buildGeneratedDocumentFields,
+  generateDocument,
+} from "../src/services/documentGenerator";
+
+vi.mock("../src/services/heidiApiClient", () => ({
+  createDocument: vi.fn(),
+  getDocument: vi.fn(),
+}));
+
+const poll = { intervalMs: 0, timeoutMs: 1000 };
+
+const letter = [
+  "Dear Dr Smith,",
+  "## Reason for referral",
+  "Worsening asthma",
+  "## Plan",
+  "Spirometry",
+].join("\n");
+
+describe("buildGeneratedDocumentFields", () => {
+  it("adds the whole document, then one field per section under its id", () => {
+    const fields = buildGeneratedDocumentFields(
+      "Referral letter",
+      letter,
+      "markdown"
+    );
+
+    expect(fields.map((f) => [f.id, f.label, f.value])).toEqual([
+      ["document_referral_letter", "Referral letter", letter],
+      [
+        "document_referral_letter_reason_for_referral",
+        "Referral letter: Reason for referral",
+        "Worsening asthma",
+      ],
+      ["document_referral_letter_plan", "Referral letter: Plan", "Spirometry"],
+    ]);
+    expect(
+      fields.every((f) => f.format === "markdown" && f.source === "heidi")
+    ).toBe(true);
+  });
+});
+
+describe("generateDocument", () => {
+  beforeEach(() => {
+    vi.mocked(createDocument).mockResolvedValue({
+      ok: true,
+      data: { id: "d1", session_id: "s1", status: "PENDING" },
+    });
+    vi.mocked(getDocument).mockReset();
+  });
+
+  it("creates the document from the template and polls until it has content", async () => {
+    vi.mocked(getDocument)
+      .mockResolvedValueOnce({
+        ok: true,
+        data: { id: "d1", session_id: "s1", status: "GENERATING" },
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        data: {
+          id: "d1",
+          session_id: "s1",
+          status: "COMPLETED",
+          content: letter,
+          content_type: "MARKDOWN",
+        },
+      });
+
+    const document = await generateDocument(
+      "s1",
+      {
+        templateId: "tpl_referral",
+        label: "Referral letter",
+        voiceStyle: "BRIEF",
+      },
+      poll
+    );
+
+    expect(createDocument).toHaveBeenCalledWith("s1", {
+      document_tab_type: "DOCUMENT",
+      generation_method: "TEMPLATE",
+      template_id: "tpl_referral",
+      voice_style: "BRIEF",
+      brain: undefined,
+      content_type: "MARKDOWN",
+    });
+    expect(getDocument).toHaveBeenCalledTimes(2);
+    expect(getDocument).toHaveBeenCalledWith("s1", "d1");
+    expect(document).toMatchObject({
+      documentId: "d1",
+      label: "Referral letter",
+      content: letter,
+      format: "markdown",
+    });
+    expect(document.fields).toHaveLength(3);
+  });
+
+  it("fails when Heidi reports the generation failed or it never finishes", async () => {
+    vi.mocked(getDocument).mockResolvedValue({
+      ok: true,
+      data: { id: "d1", session_id: "s1", status: "FAILED" },
+    });
+    await expect(
+      generateDocument("s1", { templateId: "tpl_care_plan" }, poll)
+    ).rejects.toThrow('Heidi could not generate "tpl_care_plan"');
+
+    vi.mocked(getDocument).mockResolvedValue({
+      ok: true,
+      data: { id: "d1", session_id: "s1", status: "PENDING" },
+    });
+    await expect(
+      generateDocument(
+        "s1",
+        { templateId: "tpl_care_plan" },
+        { intervalMs: 0, timeoutMs: 0 }
+      )
+    ).rejects.toThrow("Timed out");
+  });
+
+  it("fails when the document can't be created", async () => {
+    vi.mocked(createDocument).mockResolvedValue({
+      ok: false,
+      error: "Heidi API error: 422",
+    });
+
+    await expect(
+      generateDocument("s1", { templateId: "missing" }, poll)
+    ).rejects.toThrow("Heidi API error: 422");
+    expect(getDocument).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import {
+  getEmrId,
+  getScreenFingerprint,
+  getWindowTitlePattern,
+  normalizeLabel,
+  scoreLabelsInText,
+} from "../src/services/emrFingerprint";
+
+const labels = (...names: string[]) => names.map((label) => ({ label }));
+
+describe("emrFingerprint", () => {
+  it("normalizes labels for comparison", () => {
+    expect(normalizeLabel("  Date of Birth: ")).toBe("date of birth");
+    expect(normalizeLabel("D.O.B")).toBe("d o b");
+  });
+
+  it("derives the EMR id from the linked app name", () => {
+    expect(getEmrId({ appName: "Best Practice" })).toBe("best_practice");
+    expect(getEmrId({ appName: "!!!" })).toBe("generic_emr");
+    expect(getEmrId()).toBe("generic_emr");
+  });
+
+  it("drops patient details from window titles", () => {
+    expect(
+      getWindowTitlePattern("Patient Details - Smith, John (DOB 01/02/1980)")
+    ).toBe("patient_details");
+    expect(
+      getWindowTitlePattern("MedicalDirector | Mrs Jane Citizen | MRN 12345")
+    ).toBe("medicaldirector");
+    expect(getWindowTitlePattern(undefined)).toBe("");
+  });
+
+  it("fingerprints a screen by its labels, whatever their order or case", () => {
+    const fingerprint = getScreenFingerprint(
+      labels("Patient Name", "Date of Birth", "Medicare No.")
+    );
+
+    expect(fingerprint).toMatch(/^labels_[0-9a-f]{16}$/);
+    expect(
+      getScreenFingerprint(
+        labels("medicare no", "DATE OF BIRTH:", "Patient  Name", "Patient Name")
+      )
+    ).toBe(fingerprint);
+    expect(
+      getScreenFingerprint(labels("Patient Name", "Date of Birth", "MRN"))
+    ).not.toBe(fingerprint);
+  });
+
+  it("scores the labels visible in on-screen text", () => {
+    const fields = labels("Name", "DOB", "Allergies", "Medications");
+
+    expect(
+      scoreLabelsInText(fields, "Name: Jane Citizen\nDOB: 12/03/1980\nAllergies")
+    ).toBe(0.75);
+    expect(scoreLabelsInText(fields, "Surname")).toBe(0);
+    expect(scoreLabelsInText([], "Name")).toBe(0);
+  });
+});
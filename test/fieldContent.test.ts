@@ -0,0 +1,96 @@
+import { afterAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { readFocusedField } from "../src/automation/fieldContent";
+import { setInputAutomation } from "../src/automation/inputAutomation";
+import { RecordingInputAutomation } from "../src/automation/recordingInputAutomation";
+import { electronMock, setClipboardText } from "./harness/electronMock";
+
+describe("readFocusedField", () => {
+  const recorder = new RecordingInputAutomation(
+    () => electronMock.clipboard.readText(),
+    (text) => electronMock.clipboard.writeText(text)
+  );
+
+  beforeEach(() => {
+    recorder.clear();
+    recorder.keyboard = "mac";
+    setInputAutomation(recorder);
+    setClipboardText("user clipboard");
+  });
+
+  afterAll(() => {
+    setInputAutomation(null);
+  });
+
+  it("reads the text on each side of the caret without moving it", async () => {
+    recorder.focusField("Dr  Citizen", 3);
+
+    await expect(readFocusedField()).resolves.toEqual({
+      before: "Dr ",
+      after: " Citizen",
+      copied: true,
+    });
+    expect(recorder.transcript()).toEqual([
+      "key shift+primary+up",
+      "key primary+c",
+      "key right",
+      "key shift+primary+down",
+      "key primary+c",
+      "key left",
+    ]);
+    expect(recorder.caretPosition).toBe(3);
+    expect(electronMock.clipboard.readText()).toBe("user clipboard");
+  });
+
+  it("reports an empty field as nothing copied, without moving the caret", async () => {
+    await expect(readFocusedField()).resolves.toEqual({
+      before: "",
+      after: "",
+      copied: false,
+    });
+    expect(recorder.transcript()).toEqual([
+      "key shift+primary+up",
+      "key primary+c",
+      "key shift+primary+down",
+      "key primary+c",
+    ]);
+  });
+
+  it("presses nothing else when the app ignores ⌘C", async () => {
+    recorder.focusField("Dr  Citizen", 3);
+    const pressKey = recorder.pressKey.bind(recorder);
+    const spy = vi
+      .spyOn(recorder, "pressKey")
+      .mockImplementation(async (key, modifiers = []) =>
+        key === "c" ? undefined : pressKey(key, modifiers)
+      );
+
+    await expect(readFocusedField()).resolves.toEqual({
+      before: "",
+      after: "",
+      copied: false,
+    });
+    expect(recorder.transcript()).toEqual([
+      "key shift+primary+up",
+      "key shift+primary+down",
+    ]);
+    spy.mockRestore();
+  });
+
+  it("uses Ctrl+Home/End on PC keyboards", async () => {
+    recorder.keyboard = "pc";
+    recorder.focusField("12/03/1980", 0);
+
+    await expect(readFocusedField()).resolves.toMatchObject({
+      before: "",
+      after: "12/03/1980",
+    });
+    expect(recorder.transcript()).toEqual([
+      "key shift+primary+home",
+      "key primary+c",
+      "key shift+primary+end",
+      "key primary+c",
+      "key left",
+    ]);
+    expect(recorder.caretPosition).toBe(0);
+  });
+});
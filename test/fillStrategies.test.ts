@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_EMR_FORMAT_PROFILE } from "../src/config/emrProfiles";
+import {
+  chooseFillStrategy,
+  findBestOption,
+} from "../src/services/fillStrategies";
+import { EmrField } from "../src/types/emr";
+
+const box = { x: 0, y: 0, width: 100, height: 20 };
+
+describe("chooseFillStrategy", () => {
+  const select: EmrField = {
+    id: "state",
+    label: "State",
+    type: "select",
+    boundingBox: box,
+    examples: ["NSW", "VIC", "QLD"],
+  };
+
+  it("picks a strategy per control type", () => {
+    const profile = DEFAULT_EMR_FORMAT_PROFILE;
+    expect(
+      chooseFillStrategy({ ...select, type: "checkbox" }, profile)
+    ).toBe("toggle_checkbox");
+    expect(chooseFillStrategy({ ...select, type: "date" }, profile)).toBe(
+      "type"
+    );
+    expect(chooseFillStrategy(select, profile)).toBe("type_ahead");
+  });
+
+  it("only arrow-keys to options when the profile asks and options are known", () => {
+    const profile = {
+      ...DEFAULT_EMR_FORMAT_PROFILE,
+      selectStrategy: "select_option" as const,
+    };
+    expect(chooseFillStrategy(select, profile)).toBe("select_option");
+    expect(
+      chooseFillStrategy({ ...select, examples: ["NSW"] }, profile)
+    ).toBe("type_ahead");
+  });
+});
+
+describe("findBestOption", () => {
+  const options = ["Male", "Female", "Intersex", "Not stated"];
+
+  it("prefers exact matches over prefix matches", () => {
+    expect(findBestOption("female", options)).toEqual({
+      option: "Female",
+      index: 1,
+      score: 1,
+    });
+    expect(findBestOption("M", options)?.option).toBe("Male");
+  });
+
+  it("matches whole words, not letters inside them", () => {
+    expect(findBestOption("no", ["None known", "No"])?.option).toBe("No");
+    expect(findBestOption("male", ["Female", "Male"])?.option).toBe("Male");
+    expect(findBestOption("no", ["None known"])).toBeNull();
+    expect(findBestOption("Victoria", ["NSW", "VIC - Victoria"])).toEqual({
+      option: "VIC - Victoria",
+      index: 1,
+      score: 0.8,
+    });
+  });
+
+  it("matches on shared words", () => {
+    expect(findBestOption("stated", ["Declined", "Not stated"])?.index).toBe(1);
+  });
+
+  it("returns null without a reasonable match", () => {
+    expect(findBestOption("Unknown", options)).toBeNull();
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { compareFieldText } from "../src/services/fillVerifier";
+
+describe("compareFieldText", () => {
+  it("accepts OCR noise as a match", () => {
+    expect(compareFieldText("Jane Citizen", "Jane Citizen").status).toBe(
+      "verified"
+    );
+    expect(compareFieldText("12/03/1980", "l2/O3/198O").status).toBe(
+      "verified"
+    );
+    expect(compareFieldText("Ramipril 5mg daily", "Ramipri| 5mg daily").status).toBe(
+      "verified"
+    );
+  });
+
+  it("flags a field that shows nothing", () => {
+    expect(compareFieldText("Jane Citizen", "  ")).toMatchObject({
+      status: "empty",
+    });
+  });
+
+  it("flags truncated single-line values", () => {
+    expect(
+      compareFieldText("Ramipril 5mg daily with food", "Ramipril 5mg").status
+    ).toBe("truncated");
+  });
+
+  it("accepts the visible start of a multi-line value", () => {
+    expect(
+      compareFieldText(
+        "Ramipril 5mg daily with food\nMetformin 500mg twice daily",
+        "Ramipril 5mg daily with food",
+        true
+      ).status
+    ).toBe("verified");
+  });
+
+  it("flags numbers that differ, however similar the text", () => {
+    expect(compareFieldText("Ramipril 5mg", "Ramipril 50mg")).toMatchObject({
+      status: "mismatch",
+      similarity: 0,
+    });
+    expect(compareFieldText("12/03/1980", "12/08/1980").status).toBe(
+      "mismatch"
+    );
+    expect(compareFieldText("25 mg", "2.5 mg").status).toBe("mismatch");
+  });
+
+  it("flags autocorrected or misplaced values", () => {
+    const result = compareFieldText("Ramipril 5mg daily", "Rampart 5mg daily");
+    expect(result.status).toBe("mismatch");
+    expect(result.ocrText).toBe("Rampart 5mg daily");
+    expect(compareFieldText("Jane Citizen", "12/03/1980").status).toBe(
+      "mismatch"
+    );
+  });
+});
@@ -0,0 +1,83 @@
+import { setInputAutomation } from "../../src/automation/inputAutomation";
+import { RecordingInputAutomation } from "../../src/automation/recordingInputAutomation";
+import { AgentState, LinkedWindow, SessionField } from "../../src/types/agent";
+import {
+  electronMock,
+  emitAppReady,
+  hasIpcHandler,
+  invokeIpc,
+} from "./electronMock";
+
+/**
+ * Headless agent: main process loaded against the Electron mock with a recording input backend
+ */
+export interface AgentHarness {
+  recorder: RecordingInputAutomation;
+  invoke: typeof invokeIpc;
+  getState(): Promise<AgentState>;
+  addSessionFields(fields: SessionField[]): Promise<void>;
+  linkEmrWindow(window?: LinkedWindow): Promise<void>;
+  reset(): Promise<void>;
+  stop(): void;
+}
+
+let harness: AgentHarness | null = null;
+
+/**
+ * Load src/main.ts once per test file and wait until its IPC handlers are registered
+ * Requires the mocks from test/setup.ts
+ */
+export async function startAgentHarness(): Promise<AgentHarness> {
+  if (harness) {
+    return harness;
+  }
+
+  const recorder = new RecordingInputAutomation(
+    () => electronMock.clipboard.readText(),
+    (text) => electronMock.clipboard.writeText(text)
+  );
+  setInputAutomation(recorder);
+
+  await import("../../src/main");
+  emitAppReady();
+
+  // Handlers are registered before the windows are created; toggle-panel is the last one
+  const deadline = Date.now() + 5000;
+  while (!hasIpcHandler("toggle-panel")) {
+    if (Date.now() > deadline) {
+      throw new Error("Timed out waiting for main to register IPC handlers");
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+
+  harness = {
+    recorder,
+    invoke: invokeIpc,
+    async getState() {
+      const { state } = await invokeIpc<{ state: AgentState }>("agent:getState");
+      return state;
+    },
+    async addSessionFields(fields) {
+      const result = await invokeIpc("agent:addSessionFields", fields);
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+    },
+    async linkEmrWindow(window = { appName: "TestEMR", windowTitle: "Patient" }) {
+      await invokeIpc("agent:setLinkedEmrWindow", window);
+    },
+    async reset() {
+      await invokeIpc("agent:clearSession");
+      await invokeIpc("agent:discardFillPlan");
+      await invokeIpc("agent:setLinkedEmrWindow", null);
+      recorder.clear();
+    },
+    stop() {
+      // Clears the window watcher interval and global shortcuts
+      electronMock.app.emit("will-quit");
+      setInputAutomation(null);
+    },
+  };
+
+  return harness;
+}
@@ -0,0 +1,252 @@
+import { EventEmitter } from "events";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+type IpcHandler = (event: unknown, ...args: any[]) => unknown;
+
+/**
+ * Headless stand-in for an Electron NativeImage (only what the clipboard needs)
+ */
+export class FakeNativeImage {
+  constructor(private readonly png: Buffer = Buffer.alloc(0)) {}
+
+  isEmpty(): boolean {
+    return this.png.length === 0;
+  }
+
+  toPNG(): Buffer {
+    return this.png;
+  }
+}
+
+/**
+ * Formats held by the fake clipboard (every write replaces all of them, like the OS)
+ */
+export interface ClipboardData {
+  text?: string;
+  html?: string;
+  rtf?: string;
+  image?: FakeNativeImage;
+  bookmark?: string; // Title of the URL in `text`
+}
+
+interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const handlers = new Map<string, IpcHandler>();
+const sentToRenderer: Array<{ channel: string; payload: unknown }> = [];
+let clipboardData: ClipboardData = {};
+let readyResolve: () => void = () => {};
+
+const userDataDir = fs.mkdtempSync(path.join(os.tmpdir(), "heidi-agent-test-"));
+
+/**
+ * Headless stand-in for an Electron BrowserWindow (every call is a no-op)
+ */
+class FakeBrowserWindow extends EventEmitter {
+  static windows: FakeBrowserWindow[] = [];
+
+  static getAllWindows(): FakeBrowserWindow[] {
+    return FakeBrowserWindow.windows;
+  }
+
+  private bounds: Bounds = { x: 0, y: 0, width: 400, height: 800 };
+  private visible = false;
+
+  webContents = {
+    send: (channel: string, payload: unknown) => {
+      sentToRenderer.push({ channel, payload });
+    },
+    openDevTools: () => {},
+    on: () => {},
+  };
+
+  constructor(options: Partial<Bounds> = {}) {
+    super();
+    this.bounds = { ...this.bounds, ...options };
+    FakeBrowserWindow.windows.push(this);
+  }
+
+  loadURL(): Promise<void> {
+    return Promise.resolve();
+  }
+  loadFile(): Promise<void> {
+    return Promise.resolve();
+  }
+  show(): void {
+    this.visible = true;
+  }
+  showInactive(): void {
+    this.visible = true;
+  }
+  hide(): void {
+    this.visible = false;
+  }
+  isVisible(): boolean {
+    return this.visible;
+  }
+  isDestroyed(): boolean {
+    return false;
+  }
+  close(): void {
+    FakeBrowserWindow.windows = FakeBrowserWindow.windows.filter(
+      (w) => w !== this
+    );
+    this.emit("closed");
+  }
+  focus(): void {}
+  blur(): void {}
+  getBounds() {
+    return { ...this.bounds };
+  }
+  setBounds(bounds: Partial<Bounds>): void {
+    this.bounds = { ...this.bounds, ...bounds };
+  }
+  getPosition(): number[] {
+    return [this.bounds.x, this.bounds.y];
+  }
+  setPosition(x: number, y: number): void {
+    this.bounds = { ...this.bounds, x, y };
+  }
+  getSize(): number[] {
+    return [this.bounds.width, this.bounds.height];
+  }
+  setSize(width: number, height: number): void {
+    this.bounds = { ...this.bounds, width, height };
+  }
+  setAlwaysOnTop(): void {}
+  setVisibleOnAllWorkspaces(): void {}
+  setIgnoreMouseEvents(): void {}
+  setFocusable(): void {}
+  moveTop(): void {}
+}
+
+const app = Object.assign(new EventEmitter(), {
+  whenReady: () =>
+    new Promise<void>((resolve) => {
+      readyResolve = resolve;
+    }),
+  getPath: () => userDataDir,
+  getName: () => "electron-floating-agent",
+  quit: () => {},
+  dock: { hide: () => {}, show: () => {} },
+});
+
+const display = {
+  workAreaSize: { width: 1440, height: 900 },
+  workArea: { x: 0, y: 0, width: 1440, height: 900 },
+  size: { width: 1440, height: 900 },
+  bounds: { x: 0, y: 0, width: 1440, height: 900 },
+  scaleFactor: 1,
+};
+
+/**
+ * Module shape returned for `vi.mock("electron")`
+ */
+export const electronMock = {
+  app,
+  BrowserWindow: FakeBrowserWindow,
+  ipcMain: {
+    handle: (channel: string, handler: IpcHandler) => {
+      handlers.set(channel, handler);
+    },
+    removeHandler: (channel: string) => {
+      handlers.delete(channel);
+    },
+    on: () => {},
+  },
+  clipboard: {
+    readText: () => clipboardData.text ?? "",
+    readHTML: () => clipboardData.html ?? "",
+    readRTF: () => clipboardData.rtf ?? "",
+    readImage: () => clipboardData.image ?? new FakeNativeImage(),
+    readBookmark: () => ({
+      title: clipboardData.bookmark ?? "",
+      url: clipboardData.bookmark !== undefined ? clipboardData.text ?? "" : "",
+    }),
+    availableFormats: () =>
+      [
+        clipboardData.text ? "text/plain" : "",
+        clipboardData.html ? "text/html" : "",
+        clipboardData.rtf ? "text/rtf" : "",
+        clipboardData.image ? "image/png" : "",
+      ].filter(Boolean),
+    writeText: (text: string) => {
+      clipboardData = { text };
+    },
+    write: (data: ClipboardData) => {
+      clipboardData = { ...data };
+    },
+    clear: () => {
+      clipboardData = {};
+    },
+  },
+  globalShortcut: {
+    register: () => true,
+    unregisterAll: () => {},
+  },
+  screen: {
+    getPrimaryDisplay: () => display,
+    getCursorScreenPoint: () => ({ x: 0, y: 0 }),
+  },
+  dialog: {
+    showSaveDialog: async () => ({ canceled: true }),
+    showOpenDialog: async () => ({ canceled: true, filePaths: [] }),
+  },
+  desktopCapturer: {
+    getSources: async () => [],
+  },
+};
+
+/**
+ * Resolve `app.whenReady()` so main registers its IPC handlers
+ */
+export function emitAppReady(): void {
+  readyResolve();
+}
+
+/**
+ * Invoke a registered IPC handler the way the preload's ipcRenderer.invoke would
+ */
+export async function invokeIpc<T = any>(
+  channel: string,
+  ...args: unknown[]
+): Promise<T> {
+  const handler = handlers.get(channel);
+  if (!handler) {
+    throw new Error(`No IPC handler registered for "${channel}"`);
+  }
+  return (await handler({ sender: null }, ...args)) as T;
+}
+
+export function hasIpcHandler(channel: string): boolean {
+  return handlers.has(channel);
+}
+
+/**
+ * Messages main sent to renderer windows (e.g. agent:stateUpdated)
+ */
+export function getSentToRenderer() {
+  return sentToRenderer;
+}
+
+export function setClipboardText(text: string): void {
+  clipboardData = { text };
+}
+
+export function setClipboardData(data: ClipboardData): void {
+  clipboardData = { ...data };
+}
+
+export function getClipboardData(): ClipboardData {
+  return { ...clipboardData };
+}
+
+export function getUserDataDir(): string {
+  return userDataDir;
+}
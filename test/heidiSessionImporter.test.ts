@@ -0,0 +1,175 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  getSession,
+  getSessionCoding,
+  getSessionConsultNotes,
+  getSessionDocuments,
+} from "../src/services/heidiApiClient";
+import {
+  buildSessionFieldsFromHeidi,
+  importHeidiSession,
+} from "../src/services/heidiSessionImporter";
+
+vi.mock("../src/services/heidiApiClient", () => ({
+  getSession: vi.fn(),
+  getSessionCoding: vi.fn(),
+  getSessionConsultNotes: vi.fn(),
+  getSessionDocuments: vi.fn(),
+}));
+
+const session = {
+  session: {
+    id: "s1",
+    session_name: "Follow-up: asthma",
+    session_gist: "Wheeze improving on preventer",
+    patient: { name: "Jane Citizen", dob: "1980-03-12", gender: "FEMALE" },
+    consult_note: { heading: "Asthma review", result: "## Plan\n- Continue" },
+  },
+};
+
+describe("buildSessionFieldsFromHeidi", () => {
+  it("converts the session record, notes, documents and coding into fields", () => {
+    const fields = buildSessionFieldsFromHeidi({
+      session,
+      consultNotes: {
+        session_id: "s1",
+        content: "## Assessment\nAsthma, well controlled",
+        format: "MARKDOWN",
+      },
+      documents: [
+        {
+          id: "d1",
+          session_id: "s1",
+          name: "Referral letter",
+          content: "<p>Dear Dr Smith</p>",
+          content_type: "HTML",
+        },
+        { id: "d2", session_id: "s1", name: "Referral letter", content: "Copy" },
+        { id: "d3", session_id: "s1", name: "Empty", content: "" },
+      ],
+      coding: {
+        session_id: "s1",
+        icd_codes: [
+          { code: "J45.9", description: "Asthma, unspecified" },
+          { code: "Z76.0" },
+        ],
+        cpt_codes: [],
+      },
+    });
+
+    expect(fields.map((field) => field.id)).toEqual([
+      "session_name",
+      "session_gist",
+      "patient_name",
+      "date_of_birth",
+      "gender",
+      "consult_note_heading",
+      "consult_note",
+      "assessment",
+      "document_referral_letter",
+      "document_referral_letter_2",
+      "icd_codes",
+      "icd_1_code",
+      "icd_1_description",
+      "icd_1",
+      "icd_2_code",
+      "icd_2",
+    ]);
+    expect(fields.find((f) => f.id === "date_of_birth")).toMatchObject({
+      label: "Date of Birth",
+      value: "1980-03-12",
+    });
+    expect(fields.find((f) => f.id === "consult_note")).toMatchObject({
+      value: "## Assessment\nAsthma, well controlled",
+      format: "markdown",
+    });
+    expect(fields.find((f) => f.id === "document_referral_letter")).toMatchObject({
+      label: "Referral letter",
+      value: "<p>Dear Dr Smith</p>",
+      format: "html",
+    });
+    expect(fields.find((f) => f.id === "icd_codes")).toMatchObject({
+      label: "ICD codes",
+      value: "J45.9 - Asthma, unspecified\nZ76.0",
+    });
+    expect(fields.find((f) => f.id === "icd_1")).toMatchObject({
+      label: "ICD 1",
+      value: "J45.9 - Asthma, unspecified",
+    });
+    expect(fields.find((f) => f.id === "icd_1_description")).toMatchObject({
+      label: "ICD description 1",
+      value: "Asthma, unspecified",
+    });
+    expect(fields.every((field) => field.source === "heidi")).toBe(true);
+  });
+
+  it("falls back to the consult note on the session record", () => {
+    const fields = buildSessionFieldsFromHeidi({ session: session.session });
+
+    expect(fields.find((f) => f.id === "consult_note")).toMatchObject({
+      value: "## Plan\n- Continue",
+      format: "markdown",
+    });
+  });
+});
+
+describe("importHeidiSession", () => {
+  beforeEach(() => {
+    vi.mocked(getSession).mockResolvedValue({ ok: true, data: session as any });
+    vi.mocked(getSessionConsultNotes).mockResolvedValue({
+      ok: false,
+      error: "Not found",
+    });
+    vi.mocked(getSessionDocuments).mockResolvedValue({ ok: true, data: [] });
+    vi.mocked(getSessionCoding).mockResolvedValue({
+      ok: false,
+      error: "Not found",
+    });
+  });
+
+  it("imports what it can when optional endpoints fail", async () => {
+    const { fields, codes } = await importHeidiSession("s1");
+
+    expect(getSession).toHaveBeenCalledWith("s1");
+    expect(fields.map((f) => f.id)).toEqual([
+      "session_name",
+      "session_gist",
+      "patient_name",
+      "date_of_birth",
+      "gender",
+      "consult_note_heading",
+      "consult_note",
+      "plan",
+    ]);
+    expect(codes).toEqual([]);
+  });
+
+  it("returns the session's codes for the code picker", async () => {
+    vi.mocked(getSessionCoding).mockResolvedValue({
+      ok: true,
+      data: {
+        session_id: "s1",
+        icd_codes: [{ code: "J45.9", description: "Asthma, unspecified" }],
+        cpt_codes: [{ code: "99213" }, { description: "No code" }],
+      },
+    });
+
+    const { codes } = await importHeidiSession("s1");
+
+    expect(codes).toEqual([
+      { system: "icd", code: "J45.9", description: "Asthma, unspecified" },
+      { system: "cpt", code: "99213", description: undefined },
+    ]);
+  });
+
+  it("fails when the session itself can't be read", async () => {
+    vi.mocked(getSession).mockResolvedValue({
+      ok: false,
+      error: "Heidi API error: 404",
+    });
+
+    await expect(importHeidiSession("missing")).rejects.toThrow(
+      "Heidi API error: 404"
+    );
+  });
+});
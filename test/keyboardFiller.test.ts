@@ -0,0 +1,210 @@
+import { afterAll, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  clickAt,
+  fillField,
+  fillFieldAndTab,
+  pasteClipboard,
+  pressTab,
+  selectDropdownOptionAndTab,
+} from "../src/automation/keyboardFiller";
+import { setInputAutomation } from "../src/automation/inputAutomation";
+import { DEFAULT_TYPING_PROFILE } from "../src/automation/textEntry";
+import { RecordingInputAutomation } from "../src/automation/recordingInputAutomation";
+import {
+  electronMock,
+  FakeNativeImage,
+  getClipboardData,
+  setClipboardData,
+  setClipboardText,
+} from "./harness/electronMock";
+
+describe("keyboardFiller", () => {
+  let clipboardText = "";
+  const recorder = new RecordingInputAutomation(() => clipboardText);
+
+  beforeEach(() => {
+    recorder.clear();
+    setInputAutomation(recorder);
+  });
+
+  afterAll(() => {
+    setInputAutomation(null);
+  });
+
+  it("fillField types the value without pressing Tab", async () => {
+    await fillField("Jane Citizen");
+    expect(recorder.transcript()).toEqual(['type "Jane Citizen"']);
+  });
+
+  it("fillFieldAndTab types the value then presses Tab", async () => {
+    await fillFieldAndTab("12/03/1980");
+    await fillFieldAndTab("Hypertension");
+    expect(recorder.transcript()).toEqual([
+      'type "12/03/1980"',
+      "tab",
+      'type "Hypertension"',
+      "tab",
+    ]);
+  });
+
+  it("types composed characters and multi-line values verbatim", async () => {
+    await fillField("Zoé\nLine two");
+    expect(recorder.events).toEqual([{ kind: "type", text: "Zoé\nLine two" }]);
+  });
+
+  it("pasteClipboard records the clipboard contents", async () => {
+    clipboardText = "Allergies: penicillin";
+    await pasteClipboard();
+    await pressTab();
+    expect(recorder.transcript()).toEqual([
+      'paste "Allergies: penicillin"',
+      "tab",
+    ]);
+  });
+
+  it("clickAt clicks the screen point", async () => {
+    await clickAt({ x: 120.4, y: 340 });
+    expect(recorder.transcript()).toEqual(["click 120,340"]);
+  });
+
+  it("picks a dropdown option by name in macOS popup menus", async () => {
+    await selectDropdownOptionAndTab(2, "VIC - Victoria");
+    expect(recorder.transcript()).toEqual([
+      "key space",
+      'type "VIC - Victoria"',
+      "key return",
+      "tab",
+    ]);
+  });
+
+  it("arrow-keys to a dropdown option on PC keyboards", async () => {
+    recorder.keyboard = "pc";
+    await selectDropdownOptionAndTab(2, "VIC - Victoria");
+    recorder.keyboard = "mac";
+    expect(recorder.transcript()).toEqual([
+      "key alt+down",
+      "key home",
+      "key down",
+      "key down",
+      "key return",
+      "tab",
+    ]);
+  });
+
+  it("wraps backend failures from fillFieldAndTab", async () => {
+    setInputAutomation({
+      name: "failing",
+      typeText: async () => {
+        throw new Error("backend unavailable");
+      },
+      pressKey: recorder.pressKey.bind(recorder),
+      pasteClipboard: recorder.pasteClipboard.bind(recorder),
+      pressTab: recorder.pressTab.bind(recorder),
+      click: recorder.click.bind(recorder),
+    });
+
+    await expect(fillFieldAndTab("x")).rejects.toThrow(
+      "Automation failed: backend unavailable"
+    );
+    expect(recorder.events).toEqual([]);
+  });
+
+  describe("typing profiles", () => {
+    it("types long values in keystroke bursts of chunkSize", async () => {
+      await fillField("abcdefgh", { ...DEFAULT_TYPING_PROFILE, chunkSize: 3 });
+      expect(recorder.transcript()).toEqual([
+        'type "abc"',
+        'type "def"',
+        'type "gh"',
+      ]);
+    });
+
+    it("types one character at a time with per_character", async () => {
+      await fillField("Zoé", {
+        ...DEFAULT_TYPING_PROFILE,
+        strategy: "per_character",
+        charDelayMs: 0,
+      });
+      expect(recorder.transcript()).toEqual(['type "Z"', 'type "o"', 'type "é"']);
+    });
+
+    it("enters line breaks with Shift+Return when asked", async () => {
+      await fillField("Line one\nLine two", {
+        ...DEFAULT_TYPING_PROFILE,
+        newline: "shift_enter",
+      });
+      expect(recorder.transcript()).toEqual([
+        'type "Line one"',
+        "key shift+return",
+        'type "Line two"',
+      ]);
+    });
+
+    describe("paste strategy", () => {
+      const pasteRecorder = new RecordingInputAutomation(
+        () => electronMock.clipboard.readText(),
+        (text) => electronMock.clipboard.writeText(text)
+      );
+      const paste = { ...DEFAULT_TYPING_PROFILE, strategy: "paste" as const };
+
+      beforeEach(() => {
+        pasteRecorder.clear();
+        setInputAutomation(pasteRecorder);
+      });
+
+      it("pastes through the clipboard, then copies the last character as the paste-complete signal", async () => {
+        setClipboardText("user clipboard");
+
+        await fillField("Ramipril 5mg daily", paste);
+
+        expect(pasteRecorder.transcript()).toEqual([
+          'paste "Ramipril 5mg daily"',
+          "key shift+left",
+          "key primary+c",
+          "key right",
+        ]);
+        expect(pasteRecorder.focusedFieldText).toBe("Ramipril 5mg daily");
+        expect(electronMock.clipboard.readText()).toBe("user clipboard");
+      });
+
+      it("restores every clipboard format the user had", async () => {
+        const clipboard = {
+          text: "Allergies",
+          html: "<b>Allergies</b>",
+          rtf: "{\\rtf1 Allergies}",
+          image: new FakeNativeImage(Buffer.from([1, 2, 3])),
+        };
+        setClipboardData(clipboard);
+
+        await fillField("Penicillin", paste);
+
+        expect(getClipboardData()).toEqual(clipboard);
+      });
+
+      it("clears the clipboard afterwards when asked", async () => {
+        setClipboardData({ text: "Medicare 1234", html: "<p>Medicare 1234</p>" });
+
+        await fillField("Penicillin", { ...paste, clipboardAfterPaste: "clear" });
+
+        expect(pasteRecorder.focusedFieldText).toBe("Penicillin");
+        expect(getClipboardData()).toEqual({});
+      });
+
+      it("pastes rich flavors with the text in one go, even for auto typing", async () => {
+        const write = vi.spyOn(electronMock.clipboard, "write");
+        const flavors = { html: "<ul><li>Cough</li><li>Fever</li></ul>" };
+
+        await fillField(
+          "- Cough\n- Fever",
+          { ...DEFAULT_TYPING_PROFILE, newline: "enter" },
+          flavors
+        );
+
+        expect(write).toHaveBeenCalledWith({ text: "- Cough\n- Fever", ...flavors });
+        expect(pasteRecorder.transcript()[0]).toBe('paste "- Cough\\n- Fever"');
+        expect(pasteRecorder.transcript()).not.toContain("key return");
+        write.mockRestore();
+      });
+    });
+  });
+});
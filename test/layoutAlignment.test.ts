@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import {
+  alignLayoutToScreen,
+  attachLabelBounds,
+} from "../src/services/layoutAlignment";
+import { OcrResult } from "../src/services/ocr";
+import { EmrField, EmrLayout } from "../src/types/emr";
+
+function screenWithLines(
+  lines: Array<{ text: string; x: number; y: number }>
+): OcrResult {
+  return {
+    plainText: lines.map((line) => line.text).join("\n"),
+    blocks: lines.map((line) => ({
+      text: line.text,
+      level: "line",
+      bounds: { x: line.x, y: line.y, width: 100, height: 16 },
+    })),
+    words: [],
+  };
+}
+
+const fields: EmrField[] = [
+  {
+    id: "name",
+    label: "Name",
+    type: "text",
+    boundingBox: { x: 200, y: 100, width: 300, height: 24 },
+  },
+  {
+    id: "patient_id",
+    label: "Patient ID",
+    type: "text",
+    boundingBox: { x: 200, y: 140, width: 300, height: 24 },
+  },
+  {
+    id: "notes",
+    label: "Notes",
+    type: "long_text",
+    boundingBox: { x: 100, y: 220, width: 600, height: 120 },
+  },
+];
+
+const analyzedScreen = screenWithLines([
+  { text: "Patient Name Search", x: 40, y: 20 },
+  { text: "Name:", x: 100, y: 104 },
+  { text: "Patient ID:", x: 100, y: 144 },
+  { text: "Notes", x: 100, y: 200 },
+]);
+
+describe("attachLabelBounds", () => {
+  it("records the shortest OCR line containing each label", () => {
+    const [name, patientId, notes] = attachLabelBounds(fields, analyzedScreen);
+    expect(name.labelBounds).toMatchObject({ x: 100, y: 104 });
+    expect(patientId.labelBounds).toMatchObject({ x: 100, y: 144 });
+    expect(notes.labelBounds).toMatchObject({ x: 100, y: 200 });
+  });
+
+  it("leaves fields whose label is not on screen untouched", () => {
+    const [name] = attachLabelBounds(fields, screenWithLines([]));
+    expect(name.labelBounds).toBeUndefined();
+  });
+});
+
+describe("alignLayoutToScreen", () => {
+  const layout: EmrLayout = {
+    emrId: "acme",
+    screenId: "labels_test",
+    fields: attachLabelBounds(fields, analyzedScreen),
+    createdAt: 0,
+  };
+
+  it("shifts every box by the median label offset", () => {
+    const moved = screenWithLines([
+      { text: "Name:", x: 60, y: 134 },
+      { text: "Patient ID:", x: 60, y: 174 },
+      // Misread elsewhere on screen; outvoted by the other labels
+      { text: "Notes", x: 700, y: 600 },
+    ]);
+
+    const aligned = alignLayoutToScreen(layout, moved);
+
+    expect(aligned.fields.map((f) => f.boundingBox)).toEqual([
+      { x: 160, y: 130, width: 300, height: 24 },
+      { x: 160, y: 170, width: 300, height: 24 },
+      { x: 60, y: 250, width: 600, height: 120 },
+    ]);
+    expect(aligned.fields[0].labelBounds).toMatchObject({ x: 60, y: 134 });
+  });
+
+  it("keeps the layout when no stored label is found again", () => {
+    expect(alignLayoutToScreen(layout, screenWithLines([]))).toBe(layout);
+    expect(alignLayoutToScreen(layout, analyzedScreen)).toBe(layout);
+  });
+});
@@ -0,0 +1,150 @@
+import * as fs from "fs";
+import * as path from "path";
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  clearLayouts,
+  exportLayoutBundle,
+  getLayouts,
+  importLayoutBundle,
+  saveLayout,
+} from "../src/services/layoutLibrary";
+import { getConfirmedMappings, saveMapping } from "../src/services/mappingStore";
+import { EmrLayout } from "../src/types/emr";
+import { getUserDataDir } from "./harness/electronMock";
+
+const layout: EmrLayout = {
+  emrId: "acme_emr",
+  screenId: "screen_abc123",
+  titlePattern: "patient_details",
+  createdAt: 1700000000000,
+  fields: [
+    {
+      id: "patient_name",
+      label: "Patient Name",
+      type: "text",
+      boundingBox: { x: 120, y: 60, width: 250, height: 24 },
+      examples: ["Jane Citizen"],
+    },
+    {
+      id: "gender",
+      label: "Gender",
+      type: "select",
+      boundingBox: { x: 120, y: 100, width: 120, height: 24 },
+      examples: ["Female", "Male", "Other"],
+    },
+  ],
+};
+
+function readLibraryFile(): string {
+  return fs.readFileSync(
+    path.join(getUserDataDir(), "emr-layouts.json"),
+    "utf-8"
+  );
+}
+
+describe("layout library", () => {
+  beforeEach(async () => {
+    await clearLayouts();
+  });
+
+  it("stores select options but never values read off the screen", async () => {
+    await saveLayout(layout);
+
+    const [stored] = getLayouts("acme_emr");
+    expect(stored.fields[0]).not.toHaveProperty("examples");
+    expect(stored.fields[1].examples).toEqual(["Female", "Male", "Other"]);
+    expect(readLibraryFile()).not.toContain("Jane Citizen");
+  });
+
+  it("round-trips an EMR's layouts and confirmed mappings through a bundle", async () => {
+    await saveLayout(layout);
+    await saveLayout({ ...layout, emrId: "other_emr" });
+    await saveMapping(
+      "acme_emr",
+      "screen_abc123",
+      layout.fields[0],
+      "patient_name",
+      true
+    );
+    await saveMapping(
+      "acme_emr",
+      "screen_abc123",
+      layout.fields[1],
+      "gender",
+      false
+    );
+
+    const bundle = JSON.parse(JSON.stringify(exportLayoutBundle("acme_emr")));
+    expect(bundle.layouts).toHaveLength(1);
+    expect(JSON.stringify(bundle)).not.toContain("Jane Citizen");
+    expect(Object.keys(bundle.mappings.screen_abc123)).toEqual([
+      "patient_name",
+    ]);
+
+    await clearLayouts();
+    await expect(importLayoutBundle(bundle)).resolves.toEqual({
+      emrId: "acme_emr",
+      layoutCount: 1,
+      mappingCount: 1,
+    });
+    expect(getLayouts("acme_emr")).toEqual(bundle.layouts);
+    expect(getConfirmedMappings("acme_emr")).toEqual(bundle.mappings);
+  });
+
+  it("drops field values from imported bundles", async () => {
+    const bundle = exportLayoutBundle("acme_emr");
+    await importLayoutBundle({ ...bundle, layouts: [layout] });
+
+    expect(getLayouts("acme_emr")[0].fields[0]).not.toHaveProperty("examples");
+  });
+
+  it("rejects files that aren't layout bundles", async () => {
+    await expect(importLayoutBundle({ layouts: [] })).rejects.toThrow(
+      "Not a Heidi Cursor layout bundle."
+    );
+    await expect(
+      importLayoutBundle({
+        format: "heidi-cursor-layout-bundle",
+        version: 1,
+        emrId: "acme_emr",
+        layouts: [{ emrId: "acme_emr" }],
+        mappings: {},
+      })
+    ).rejects.toThrow("Layout bundle is malformed.");
+  });
+
+  it("rejects a malformed bundle before storing any of it", async () => {
+    const bundle = exportLayoutBundle("acme_emr");
+    const mappingsBefore = getConfirmedMappings("acme_emr");
+    const mapping = {
+      emrLabel: "Patient Name",
+      heidiFieldId: "patient_name",
+      updatedAt: 1700000000000,
+    };
+    const unsized = {
+      ...layout,
+      fields: [{ ...layout.fields[0], boundingBox: { x: 120, y: 60 } }],
+    };
+
+    for (const malformed of [
+      { ...bundle, layouts: [unsized] },
+      {
+        ...bundle,
+        layouts: [layout],
+        mappings: {
+          screen_abc123: {
+            patient_name: mapping,
+            gender: { ...mapping, emrLabel: undefined },
+          },
+        },
+      },
+      { ...bundle, layouts: [layout], mappings: { screen_abc123: [mapping] } },
+    ]) {
+      await expect(importLayoutBundle(malformed)).rejects.toThrow(
+        "Layout bundle is malformed."
+      );
+    }
+    expect(getLayouts("acme_emr")).toEqual([]);
+    expect(getConfirmedMappings("acme_emr")).toEqual(mappingsBefore);
+  });
+});
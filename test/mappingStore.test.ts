@@ -0,0 +1,94 @@
+import * as fs from "fs";
+import * as path from "path";
+import { describe, expect, it } from "vitest";
+import {
+  clearUnconfirmedMappings,
+  getConfirmedMappings,
+  getStoredMapping,
+  importConfirmedMappings,
+  saveMapping,
+} from "../src/services/mappingStore";
+import { getUserDataDir } from "./harness/electronMock";
+
+const dob = { id: "dob", label: "Date of Birth" };
+const name = { id: "patient_name", label: "Patient Name" };
+
+function readStoreFile(): any {
+  return JSON.parse(
+    fs.readFileSync(path.join(getUserDataDir(), "emr-mappings.json"), "utf-8")
+  );
+}
+
+// The store is loaded once per process, so each test uses its own EMR id
+describe("mapping store", () => {
+  it("remembers a mapping per EMR screen and writes it to disk", async () => {
+    await saveMapping("acme", "screen_a", dob, "date_of_birth", false);
+
+    expect(getStoredMapping("acme", "screen_a", dob)).toMatchObject({
+      emrLabel: "Date of Birth",
+      heidiFieldId: "date_of_birth",
+      confirmed: false,
+    });
+    expect(getStoredMapping("acme", "screen_a", name)).toBeNull();
+    expect(getStoredMapping("other_emr", "screen_a", dob)).toBeNull();
+    expect(readStoreFile().emrs.acme.screen_a.dob.heidiFieldId).toBe(
+      "date_of_birth"
+    );
+  });
+
+  it("never lets an automatic mapping replace a confirmed one", async () => {
+    await saveMapping("bp", "screen_a", dob, "date_of_birth", true);
+    await saveMapping("bp", "screen_a", dob, "visit_date", false);
+    expect(getStoredMapping("bp", "screen_a", dob)?.heidiFieldId).toBe(
+      "date_of_birth"
+    );
+
+    // A confirmed "no match" is remembered too
+    await saveMapping("bp", "screen_a", dob, null, true);
+    expect(getStoredMapping("bp", "screen_a", dob)).toMatchObject({
+      heidiFieldId: null,
+      confirmed: true,
+    });
+  });
+
+  it("reuses a confirmed mapping for the same label on another screen", async () => {
+    await saveMapping("md", "screen_a", dob, "date_of_birth", true);
+    await saveMapping("md", "screen_a", name, "patient_name", false);
+
+    const birth = { id: "birth", label: "date of birth:" };
+    expect(getStoredMapping("md", "screen_b", birth)?.heidiFieldId).toBe(
+      "date_of_birth"
+    );
+    // Automatic mappings stay on their own screen
+    expect(getStoredMapping("md", "screen_b", name)).toBeNull();
+  });
+
+  it("clears automatic mappings but keeps confirmed ones", async () => {
+    await saveMapping("zedmed", "screen_a", dob, "date_of_birth", true);
+    await saveMapping("zedmed", "screen_a", name, "patient_name", false);
+
+    await clearUnconfirmedMappings();
+
+    expect(getStoredMapping("zedmed", "screen_a", dob)).not.toBeNull();
+    expect(getStoredMapping("zedmed", "screen_a", name)).toBeNull();
+    expect(readStoreFile().emrs.zedmed.screen_a).not.toHaveProperty(
+      "patient_name"
+    );
+  });
+
+  it("exports and imports confirmed mappings only", async () => {
+    await saveMapping("genie", "screen_a", dob, "date_of_birth", true);
+    await saveMapping("genie", "screen_a", name, "patient_name", false);
+
+    const confirmed = getConfirmedMappings("genie");
+    expect(Object.keys(confirmed.screen_a)).toEqual(["dob"]);
+
+    await expect(
+      importConfirmedMappings("genie_copy", confirmed)
+    ).resolves.toBe(1);
+    expect(getStoredMapping("genie_copy", "screen_a", dob)).toMatchObject({
+      heidiFieldId: "date_of_birth",
+      confirmed: true,
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { parseTesseractTsv } from "../src/services/ocr";
+
+const HEADER =
+  "level\tpage_num\tblock_num\tpar_num\tline_num\tword_num\tleft\ttop\twidth\theight\tconf\ttext";
+
+function row(
+  level: number,
+  line: [number, number, number],
+  word: number,
+  [left, top, width, height]: number[],
+  conf: number,
+  text = ""
+): string {
+  return [level, 1, ...line, word, left, top, width, height, conf, text].join(
+    "\t"
+  );
+}
+
+describe("parseTesseractTsv", () => {
+  it("groups words into lines with their boxes and confidence", () => {
+    const result = parseTesseractTsv(
+      [
+        HEADER,
+        row(4, [1, 1, 1], 0, [10, 20, 150, 14], -1),
+        row(5, [1, 1, 1], 1, [10, 20, 60, 14], 96, "Patient"),
+        row(5, [1, 1, 1], 2, [80, 22, 80, 12], 90, "Name:"),
+        row(5, [1, 1, 2], 1, [10, 50, 40, 14], 88, "DOB:"),
+        "",
+      ].join("\n")
+    );
+
+    expect(result.plainText).toBe("Patient Name:\nDOB:");
+    expect(result.blocks[0]).toMatchObject({
+      text: "Patient Name:",
+      level: "line",
+      bounds: { x: 10, y: 20, width: 150, height: 14 },
+    });
+    expect(result.blocks[0].confidence).toBeCloseTo(0.93);
+    expect(result.words.map((word) => word.text)).toEqual([
+      "Patient",
+      "Name:",
+      "DOB:",
+    ]);
+    expect(result.words[1]).toEqual({
+      text: "Name:",
+      level: "word",
+      confidence: 0.9,
+      bounds: { x: 80, y: 22, width: 80, height: 12 },
+    });
+  });
+
+  it("keeps lines from different blocks apart", () => {
+    const result = parseTesseractTsv(
+      [
+        HEADER,
+        row(5, [1, 1, 1], 1, [10, 20, 60, 14], 95, "Medications"),
+        row(5, [2, 1, 1], 1, [400, 20, 60, 14], 95, "Allergies"),
+      ].join("\r\n")
+    );
+
+    expect(result.blocks.map((block) => block.text)).toEqual([
+      "Medications",
+      "Allergies",
+    ]);
+  });
+
+  it("skips empty words and rows without a confidence", () => {
+    const result = parseTesseractTsv(
+      [
+        HEADER,
+        row(5, [1, 1, 1], 1, [10, 20, 5, 14], 95, " "),
+        row(5, [1, 1, 1], 2, [20, 20, 5, 14], -1, "|"),
+        row(5, [1, 1, 1], 3, [30, 20, 40, 14], 80, "MRN"),
+        "5\t1\t1",
+      ].join("\n")
+    );
+
+    expect(result.plainText).toBe("MRN");
+    expect(result.words).toHaveLength(1);
+  });
+
+  it("returns nothing for output without words", () => {
+    expect(parseTesseractTsv(HEADER)).toEqual({
+      plainText: "",
+      blocks: [],
+      words: [],
+    });
+  });
+});
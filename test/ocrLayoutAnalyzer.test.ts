@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { OcrBlock, OcrResult } from "../src/services/ocr";
+import { analyzeLayoutFromOcr } from "../src/services/ocrLayoutAnalyzer";
+
+/**
+ * One OCR line from words laid out left to right, 8px apart unless a gap is given
+ */
+function line(y: number, words: Array<string | { gap: number }>): OcrBlock {
+  const blocks: OcrBlock[] = [];
+  let x = 20;
+  for (const word of words) {
+    if (typeof word !== "string") {
+      x += word.gap;
+      continue;
+    }
+    const width = word.length * 8;
+    blocks.push({
+      text: word,
+      level: "word",
+      confidence: 0.95,
+      bounds: { x, y, width, height: 16 },
+    });
+    x += width + 8;
+  }
+  const last = blocks[blocks.length - 1].bounds!;
+  return {
+    text: blocks.map((b) => b.text).join(" "),
+    level: "line",
+    confidence: 0.95,
+    bounds: { x: 20, y, width: last.x + last.width - 20, height: 16 },
+    words: blocks,
+  };
+}
+
+function ocr(blocks: OcrBlock[]): OcrResult {
+  return {
+    plainText: blocks.map((b) => b.text).join("\n"),
+    blocks,
+    words: blocks.flatMap((b) => b.words ?? []),
+  };
+}
+
+describe("analyzeLayoutFromOcr", () => {
+  it("finds labelled fields in reading order, with inputs right of their labels", () => {
+    const fields = analyzeLayoutFromOcr(
+      ocr([
+        line(20, ["DEMOGRAPHICS"]),
+        line(60, ["Patient", "Name:", { gap: 200 }, "DOB:"]),
+        line(100, ["Weight"]),
+      ]),
+      800
+    );
+
+    expect(fields.map((f) => [f.id, f.label, f.type, f.section])).toEqual([
+      ["patient_name", "Patient Name", "text", "demographics"],
+      ["dob", "DOB", "date", "demographics"],
+      ["weight", "Weight", "number", "demographics"],
+    ]);
+    const [name, dob] = fields;
+    expect(name.boundingBox.x).toBeGreaterThan(20 + 7 * 8 + 8 + 5 * 8);
+    expect(name.boundingBox.x + name.boundingBox.width).toBeLessThan(
+      dob.boundingBox.x
+    );
+  });
+
+  it("does not keep the value already in a field", () => {
+    const fields = analyzeLayoutFromOcr(
+      ocr([
+        line(60, ["Patient", "Name:", "Jane", "Citizen"]),
+        line(100, ["Date", "of", "Birth:", "12/03/1980"]),
+      ])
+    );
+
+    expect(fields.map((f) => f.id)).toEqual(["patient_name", "date_of_birth"]);
+    expect(JSON.stringify(fields)).not.toMatch(/Jane|Citizen|1980/);
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import {
+  htmlToPlainText,
+  markdownToHtml,
+  markdownToPlainText,
+  markdownToRtf,
+  parseContentFormat,
+  renderRichText,
+} from "../src/services/richText";
+
+const note = [
+  "# Consult note",
+  "",
+  "## History",
+  "Cough for **3 days**, worse at night.",
+  "No fever.",
+  "",
+  "## Plan",
+  "1. Salbutamol *as needed*",
+  "2. Review in `1 week`",
+  "- Safety-net advice given",
+].join("\n");
+
+describe("markdownToPlainText", () => {
+  it("flattens headings, emphasis and lists", () => {
+    expect(markdownToPlainText(note)).toBe(
+      [
+        "Consult note",
+        "",
+        "History",
+        "Cough for 3 days, worse at night.",
+        "No fever.",
+        "",
+        "Plan",
+        "1. Salbutamol as needed",
+        "2. Review in 1 week",
+        "",
+        "- Safety-net advice given",
+      ].join("\n")
+    );
+  });
+
+  it("keeps a blank line between paragraphs", () => {
+    expect(
+      markdownToPlainText("Cough for 3 days.\nNo fever.\n\nChest clear.")
+    ).toBe("Cough for 3 days.\nNo fever.\n\nChest clear.");
+  });
+
+  it("leaves underscores inside words alone", () => {
+    expect(markdownToPlainText("Code: snake_case_value")).toBe(
+      "Code: snake_case_value"
+    );
+  });
+});
+
+describe("markdownToHtml", () => {
+  it("renders blocks and inline styles, escaping text", () => {
+    expect(markdownToHtml(note)).toBe(
+      "<h1>Consult note</h1>" +
+        "<h2>History</h2>" +
+        "<p>Cough for <strong>3 days</strong>, worse at night.<br>No fever.</p>" +
+        "<h2>Plan</h2>" +
+        "<ol><li>Salbutamol <em>as needed</em></li><li>Review in <code>1 week</code></li></ol>" +
+        "<ul><li>Safety-net advice given</li></ul>"
+    );
+    expect(markdownToHtml("BP <140 & HR > 60")).toBe(
+      "<p>BP &lt;140 &amp; HR &gt; 60</p>"
+    );
+  });
+});
+
+describe("markdownToRtf", () => {
+  it("writes bold headings, bullets and escaped text", () => {
+    const rtf = markdownToRtf("## Plan\n- **Rest** {2 days}\n- Temp 38°C");
+
+    expect(rtf.startsWith("{\\rtf1\\ansi")).toBe(true);
+    expect(rtf).toContain("{\\b\\fs28 Plan}\\par");
+    expect(rtf).toContain("\\bullet\\tab {\\b Rest} \\{2 days\\}\\par");
+    expect(rtf).toContain("Temp 38\\u176?C");
+    expect(rtf.endsWith("}")).toBe(true);
+  });
+});
+
+describe("htmlToPlainText", () => {
+  it("turns block tags into lines and decodes entities", () => {
+    expect(
+      htmlToPlainText(
+        "<h2>Plan</h2><p>BP &lt;140&nbsp;systolic</p><ul><li>Rest</li><li>Fluids</li></ul>"
+      )
+    ).toBe("Plan\nBP <140 systolic\n\n- Rest\n- Fluids");
+  });
+});
+
+describe("renderRichText", () => {
+  it("adds the requested flavor to markdown", () => {
+    expect(renderRichText("**Cough**", "markdown", "html")).toEqual({
+      text: "Cough",
+      html: "<p><strong>Cough</strong></p>",
+    });
+    expect(renderRichText("**Cough**", "markdown", "rtf").rtf).toContain(
+      "{\\b Cough}"
+    );
+    expect(renderRichText("**Cough**", "markdown", "plain")).toEqual({
+      text: "Cough",
+    });
+  });
+
+  it("keeps HTML as the HTML flavor and flattens it for the text", () => {
+    expect(renderRichText("<p>Cough</p>", "html", "html")).toEqual({
+      text: "Cough",
+      html: "<p>Cough</p>",
+    });
+  });
+
+  it("passes plain values through", () => {
+    expect(renderRichText("**not markdown**", "plain", "html")).toEqual({
+      text: "**not markdown**",
+    });
+  });
+});
+
+describe("parseContentFormat", () => {
+  it("maps API format names", () => {
+    expect(parseContentFormat("MARKDOWN")).toBe("markdown");
+    expect(parseContentFormat("HTML")).toBe("html");
+    expect(parseContentFormat(undefined)).toBe("plain");
+  });
+});
@@ -0,0 +1,47 @@
+import { vi } from "vitest";
+
+// Main process modules run against an in-memory Electron (see harness/electronMock.ts)
+vi.mock("electron", async () => {
+  const { electronMock } = await import("./harness/electronMock");
+  return { ...electronMock, default: electronMock };
+});
+
+// Never pick up a developer's .env (API keys would trigger real provider calls)
+vi.mock("dotenv/config", () => ({}));
+
+// osascript calls succeed with empty output instead of driving the real desktop
+vi.mock("child_process", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("child_process")>();
+  const { promisify } = await import("util");
+
+  const exec = Object.assign(
+    (_command: string, ...rest: unknown[]) => {
+      const callback = rest.find((arg) => typeof arg === "function") as
+        | ((error: Error | null, stdout: string, stderr: string) => void)
+        | undefined;
+      setImmediate(() => callback?.(null, "", ""));
+    },
+    {
+      [promisify.custom]: async () => ({ stdout: "", stderr: "" }),
+    }
+  );
+
+  const execFile = Object.assign(
+    (_file: string, ...rest: unknown[]) => {
+      const callback = rest.find((arg) => typeof arg === "function") as
+        | ((error: Error | null, stdout: string, stderr: string) => void)
+        | undefined;
+      setImmediate(() => callback?.(null, "", ""));
+    },
+    {
+      [promisify.custom]: async () => ({ stdout: "", stderr: "" }),
+    }
+  );
+
+  return {
+    ...actual,
+    exec,
+    execFile,
+    default: { ...actual, exec, execFile },
+  };
+});
@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_EMR_FORMAT_PROFILE,
+  EmrFormatProfile,
+} from "../src/config/emrProfiles";
+import { normalizeDate } from "../src/services/emrHeidiProfileMapper";
+import { formatValueForEmrField } from "../src/services/valueFormatter";
+
+const usProfile: EmrFormatProfile = {
+  ...DEFAULT_EMR_FORMAT_PROFILE,
+  dateFormat: "MM/DD/YYYY",
+  sourceDateOrder: "mdy",
+  phoneFormat: "(###) ###-####",
+};
+
+describe("normalizeDate", () => {
+  it("keeps the US default for ambiguous dates", () => {
+    expect(normalizeDate("03/04/1980")).toBe("1980-03-04");
+    expect(normalizeDate("03/04/1980", "dmy")).toBe("1980-04-03");
+  });
+
+  it("treats a first part over 12 as the day", () => {
+    expect(normalizeDate("25/12/1980")).toBe("1980-12-25");
+  });
+
+  it("parses ISO, dotted and named-month dates", () => {
+    expect(normalizeDate("1980-3-4T00:00:00Z")).toBe("1980-03-04");
+    expect(normalizeDate("04.03.1980", "dmy")).toBe("1980-03-04");
+    expect(normalizeDate("4 March 1980")).toBe("1980-03-04");
+    expect(normalizeDate("Mar 4, 1980")).toBe("1980-03-04");
+  });
+
+  it("returns unparseable or impossible dates unchanged", () => {
+    expect(normalizeDate(" last Tuesday ")).toBe("last Tuesday");
+    expect(normalizeDate("31/02/1980", "dmy")).toBe("31/02/1980");
+  });
+});
+
+describe("formatValueForEmrField", () => {
+  const profile = DEFAULT_EMR_FORMAT_PROFILE;
+
+  it("formats dates for the EMR's date pattern", () => {
+    expect(
+      formatValueForEmrField("1980-03-04", { type: "date" }, profile)
+    ).toBe("04/03/1980");
+    expect(
+      formatValueForEmrField("4 March 1980", { type: "date" }, usProfile)
+    ).toBe("03/04/1980");
+    expect(
+      formatValueForEmrField("1980-03-04", { type: "date" }, {
+        ...profile,
+        dateFormat: "YYYY-MM-DD",
+      })
+    ).toBe("1980-03-04");
+  });
+
+  it("strips units from numbers", () => {
+    expect(formatValueForEmrField("72 kg", { type: "number" }, profile)).toBe(
+      "72"
+    );
+    expect(
+      formatValueForEmrField("120 / 80 mmHg", { type: "number" }, profile)
+    ).toBe("120/80");
+    expect(
+      formatValueForEmrField("1,250 mL", { type: "number" }, profile)
+    ).toBe("1250");
+    expect(
+      formatValueForEmrField("<5 mmol/L", { type: "number" }, profile)
+    ).toBe("<5");
+    expect(formatValueForEmrField(">200", { type: "number" }, profile)).toBe(
+      ">200"
+    );
+    expect(
+      formatValueForEmrField("72 kg", { type: "number" }, {
+        ...profile,
+        stripNumberUnits: false,
+      })
+    ).toBe("72 kg");
+  });
+
+  it("maps select values case-insensitively", () => {
+    expect(formatValueForEmrField("Male", { type: "select" }, profile)).toBe(
+      "M"
+    );
+    expect(
+      formatValueForEmrField("female", { label: "Gender" }, profile)
+    ).toBe("F");
+    expect(
+      formatValueForEmrField("Other", { type: "select" }, profile)
+    ).toBe("Other");
+  });
+
+  it("maps checkbox values to the profile's checked/unchecked text", () => {
+    expect(formatValueForEmrField("true", { type: "checkbox" }, profile)).toBe(
+      "Yes"
+    );
+    expect(formatValueForEmrField("N", { type: "checkbox" }, profile)).toBe(
+      "No"
+    );
+  });
+
+  it("splits phone numbers with the profile pattern", () => {
+    expect(
+      formatValueForEmrField("555.123.4567", { label: "Mobile" }, usProfile)
+    ).toBe("(555) 123-4567");
+    // Digit count doesn't fit the pattern, or there is no pattern: left as written
+    expect(
+      formatValueForEmrField("+61 412 345 678", { label: "Phone" }, usProfile)
+    ).toBe("+61 412 345 678");
+    expect(
+      formatValueForEmrField("+61 412 345 678", { label: "Phone" }, profile)
+    ).toBe("+61 412 345 678");
+  });
+
+  it("uses the label when the field type is unknown", () => {
+    expect(
+      formatValueForEmrField("1980-03-04", { label: "DOB" }, profile)
+    ).toBe("04/03/1980");
+    expect(
+      formatValueForEmrField(" Free text ", { label: "Notes" }, profile)
+    ).toBe(" Free text ");
+    expect(
+      formatValueForEmrField("1980-03-04", { type: "long_text", label: "Date notes" }, profile)
+    ).toBe("1980-03-04");
+  });
+});
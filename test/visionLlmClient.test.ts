@@ -0,0 +1,137 @@
+import axios from "axios";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getVisionAiConfig, setProbedModelId } from "../src/config/aiConfig";
+import { extractJson, VisionLlmClient } from "../src/services/visionLlmClient";
+
+describe("extractJson", () => {
+  it("reads JSON inside markdown fences or prose", () => {
+    expect(extractJson('```json\n[{"id": "mrn"}]\n```')).toEqual([
+      { id: "mrn" },
+    ]);
+    expect(
+      extractJson('Here are the fields: {"items": [{"id": "mrn"}]} Done.')
+    ).toEqual({ items: [{ id: "mrn" }] });
+  });
+
+  it("keeps the complete elements of a truncated array", () => {
+    expect(
+      extractJson('[{"id": "mrn", "value": "1]2"}, {"id": "dob", "val')
+    ).toEqual([{ id: "mrn", value: "1]2" }]);
+  });
+
+  it("keeps the complete elements of a truncated { items } wrapper", () => {
+    expect(
+      extractJson(
+        '{"items": [{"id": "mrn", "value": "12345"}, {"id": "dob"}, {"id": "no'
+      )
+    ).toEqual({ items: [{ id: "mrn", value: "12345" }, { id: "dob" }] });
+  });
+
+  it("throws when nothing can be recovered", () => {
+    expect(() => extractJson("I could not read the screenshot")).toThrow(
+      "AI returned invalid JSON"
+    );
+    expect(() => extractJson('{"items": [{"id": "mr')).toThrow(
+      "AI returned invalid JSON"
+    );
+  });
+});
+
+describe("VisionLlmClient.probe (Ollama)", () => {
+  const client = new VisionLlmClient();
+  let capabilities: Record<string, string[] | undefined> = {};
+
+  function installModels(...names: string[]) {
+    vi.spyOn(axios, "get").mockResolvedValue({
+      data: { models: names.map((name) => ({ name })) },
+    });
+  }
+
+  beforeEach(() => {
+    vi.stubEnv("VISION_AI_PROVIDER", "ollama");
+    vi.stubEnv("OLLAMA_MODEL_ID", "");
+    capabilities = {};
+    vi.spyOn(axios, "post").mockImplementation(async (_url, body: any) => ({
+      data: { capabilities: capabilities[body.model] },
+    }));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+    setProbedModelId(undefined);
+  });
+
+  it("picks the first installed vision model when none is configured", async () => {
+    installModels("llama3:latest", "llava:13b", "qwen2.5vl:7b");
+    capabilities = {
+      "llama3:latest": ["completion"],
+      "llava:13b": ["completion", "vision"],
+      "qwen2.5vl:7b": ["completion", "vision"],
+    };
+
+    await expect(client.probe()).resolves.toEqual({
+      provider: "ollama",
+      reachable: true,
+      modelId: "llava:13b",
+      availableModels: ["llama3:latest", "llava:13b", "qwen2.5vl:7b"],
+      supportsImages: true,
+      error: undefined,
+    });
+    expect(axios.get).toHaveBeenCalledWith(
+      "http://localhost:11434/api/tags",
+      expect.anything()
+    );
+    expect(getVisionAiConfig().modelId).toBe("llava:13b");
+  });
+
+  it("keeps a configured model, matching tags without \":latest\"", async () => {
+    vi.stubEnv("OLLAMA_MODEL_ID", "llava");
+    installModels("moondream:latest", "llava:latest");
+
+    // Older Ollama versions don't report capabilities
+    await expect(client.probe()).resolves.toMatchObject({
+      reachable: true,
+      modelId: "llava",
+      supportsImages: undefined,
+      error: undefined,
+    });
+    expect(getVisionAiConfig().modelId).toBe("llava");
+  });
+
+  it("tells the user to pull a configured model that isn't installed", async () => {
+    vi.stubEnv("OLLAMA_MODEL_ID", "llava");
+    installModels("llama3:latest");
+
+    await expect(client.probe()).resolves.toMatchObject({
+      reachable: true,
+      modelId: "llava",
+      supportsImages: false,
+      error: 'Model "llava" is not installed. Run: ollama pull llava',
+    });
+    expect(axios.post).not.toHaveBeenCalled();
+  });
+
+  it("shares one probe between concurrent callers", async () => {
+    installModels("llava:13b");
+    capabilities = { "llava:13b": ["vision"] };
+
+    const [first, second] = await Promise.all([client.probe(), client.probe()]);
+
+    expect(second).toBe(first);
+    expect(axios.get).toHaveBeenCalledTimes(1);
+  });
+
+  it("reports an Ollama server that isn't running", async () => {
+    vi.spyOn(axios, "get").mockRejectedValue(
+      new Error("connect ECONNREFUSED 127.0.0.1:11434")
+    );
+
+    await expect(client.probe()).resolves.toEqual({
+      provider: "ollama",
+      reachable: false,
+      modelId: "llava",
+      error: "connect ECONNREFUSED 127.0.0.1:11434",
+    });
+  });
+});
@@ -0,0 +1,11 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    root: '.',
+    include: ['test/**/*.test.ts'],
+    setupFiles: ['./test/setup.ts'],
+    environment: 'node',
+    testTimeout: 20000,
+  },
+});